@@ -0,0 +1,51 @@
+import powerbi from "powerbi-visuals-api";
+import { AdvancedFilter, BasicFilter, FilterType } from "powerbi-models";
+import type { IAdvancedFilter, IBasicFilter, IFilterColumnTarget } from "powerbi-models";
+
+// object/property the filter is persisted under (declared in capabilities.json)
+export const FILTER_OBJECT = "general";
+export const FILTER_PROPERTY = "filter";
+
+/**
+ * Table and column behind a bound field, from its query name: "Risks.Consequence",
+ * or "Sum(Risks.Consequence)" when the field is aggregated. A measure has no column
+ * to filter on, so it gives null.
+ */
+export function filter_target(source: powerbi.DataViewMetadataColumn | undefined): IFilterColumnTarget | null {
+    const match = /^(\w+\()?'?([^'()]+?)'?\.([^()]+)\)?$/.exec(source?.queryName ?? "");
+    if (!match) return null;
+    // an aggregated column is flagged as a measure too, but its query name still wraps the column
+    if (source?.isMeasure && !match[1]) return null;
+    return { table: match[2], column: match[3] };
+}
+
+// the filter from this visual on the given column and of the given type, if one is applied
+function applied_filter(filters: powerbi.IFilter[] | undefined, target: IFilterColumnTarget, type: FilterType) {
+    return (filters ?? [])
+        .map(f => f as IAdvancedFilter | IBasicFilter)
+        .find(f => {
+            const on = f?.target as IFilterColumnTarget | undefined;
+            return f?.filterType === type && on?.table === target.table && on?.column === target.column;
+        });
+}
+
+export function level_filter(target: IFilterColumnTarget, level: number): IAdvancedFilter {
+    return new AdvancedFilter(target, "And", { operator: "Is", value: level }).toJSON();
+}
+
+// the level a filter from level_filter selects on this column, if one is applied
+export function filtered_level(filters: powerbi.IFilter[] | undefined, target: IFilterColumnTarget): number | null {
+    const filter = applied_filter(filters, target, FilterType.Advanced) as IAdvancedFilter | undefined;
+    const value = Number(filter?.conditions?.[0]?.value);
+    return Number.isInteger(value) ? value : null;
+}
+
+export function values_filter(target: IFilterColumnTarget, values: Array<string | number | boolean>): IBasicFilter {
+    return new BasicFilter(target, "In", values).toJSON();
+}
+
+// the values a filter from values_filter keeps on this column, if one is applied
+export function filtered_values(filters: powerbi.IFilter[] | undefined, target: IFilterColumnTarget): Array<string | number | boolean> | null {
+    const filter = applied_filter(filters, target, FilterType.Basic) as IBasicFilter | undefined;
+    return Array.isArray(filter?.values) ? filter.values : null;
+}
@@ -3,11 +3,19 @@ export interface MatrixCell {
     likelihood: string;
     colour: number;
     risk: string;
+    fill?: string; // explicit colour from a data-driven definition
 
 }
 
 export type MatrixData = MatrixCell[];
 
+export const DEFAULT_CONSEQUENCE_LEVELS = ["Insignificant","Minor","Moderate","Major","Catastrophic"];
+export const DEFAULT_LIKELIHOOD_LEVELS = ["Rare","Unlikely","Possible","Likely","Almost Certain"];
+
+export const MIN_LEVELS = 2;
+export const MAX_LEVELS = 10;
+export const MAX_BANDS = 10;
+
 export function create_base_matrix(): MatrixData {
 
     return [
@@ -37,4 +45,273 @@ export function create_base_matrix(): MatrixData {
         { consequence: "Catastrophic", likelihood: "Likely", colour: 3, risk: "Extreme" },
         { consequence: "Catastrophic", likelihood: "Almost Certain", colour: 3, risk: "Extreme" }
     ];
-}
\ No newline at end of file
+}
+
+// band index per cell, indexed [consequence][likelihood] with both axes lowest first
+export type BandGrid = number[][];
+export type CellFills = Array<Array<string | undefined>>;
+
+export function bands_from_matrix(cells: MatrixData, consequenceLevels: string[], likelihoodLevels: string[]): BandGrid {
+    return consequenceLevels.map(consequence =>
+        likelihoodLevels.map(likelihood =>
+            cells.find(c => c.consequence === consequence && c.likelihood === likelihood)?.colour ?? 0
+        )
+    );
+}
+
+// map level i of n onto the nearest level of a scale with baseCount levels
+function resample_index(i: number, n: number, baseCount: number): number {
+    if (n <= 1) return Math.floor((baseCount - 1) / 2);
+    return Math.round(i * (baseCount - 1) / (n - 1));
+}
+
+/**
+ * Resamples a band grid onto N×M levels, so the same shape carries over
+ * when a matrix is grown or shrunk.
+ */
+export function resample_bands(bands: BandGrid, consequenceCount: number, likelihoodCount: number): BandGrid {
+    const baseConsequenceCount = bands.length;
+    const baseLikelihoodCount = bands[0]?.length ?? 0;
+    const grid: BandGrid = [];
+
+    for (let c = 0; c < consequenceCount; c++) {
+        const row = bands[resample_index(c, consequenceCount, baseConsequenceCount)] ?? [];
+        const column: number[] = [];
+        for (let l = 0; l < likelihoodCount; l++) {
+            column.push(row[resample_index(l, likelihoodCount, baseLikelihoodCount)] ?? 0);
+        }
+        grid.push(column);
+    }
+
+    return grid;
+}
+
+/**
+ * Parses the band grid text used by presets and the custom matrix.
+ * One line (or ";"-separated row) per likelihood level, highest first as drawn,
+ * each holding 1-based band numbers for the consequence levels left to right.
+ * Missing or invalid entries take the band from `fallback`.
+ */
+export function parse_band_grid(
+    text: string,
+    consequenceCount: number,
+    likelihoodCount: number,
+    bandCount: number,
+    fallback: BandGrid
+): BandGrid {
+    const rows = (text ?? "").split(/[\n;]+/).map(r => r.trim()).filter(r => r.length > 0);
+    const grid = resample_bands(fallback, consequenceCount, likelihoodCount);
+
+    rows.slice(0, likelihoodCount).forEach((row, r) => {
+        const lIdx = likelihoodCount - 1 - r;
+        row.split(/[\s,]+/).slice(0, consequenceCount).forEach((entry, cIdx) => {
+            const band = Number(entry);
+            if (!Number.isInteger(band)) return;
+            grid[cIdx][lIdx] = Math.min(Math.max(band, 1), bandCount) - 1;
+        });
+    });
+
+    return grid;
+}
+
+// inverse of parse_band_grid
+export function format_band_grid(bands: BandGrid): string {
+    const likelihoodCount = bands[0]?.length ?? 0;
+    const rows: string[] = [];
+
+    for (let l = likelihoodCount - 1; l >= 0; l--) {
+        rows.push(bands.map(column => String(column[l] + 1)).join(" "));
+    }
+
+    return rows.join("\n");
+}
+
+/**
+ * Builds the cell table for the given levels, with each cell coloured and
+ * labelled by its band.
+ */
+export function create_matrix(
+    consequenceLevels: string[],
+    likelihoodLevels: string[],
+    bands: BandGrid,
+    bandLabels: string[],
+    fills?: CellFills
+): MatrixData {
+    const cells: MatrixData = [];
+
+    consequenceLevels.forEach((consequence, cIdx) => {
+        likelihoodLevels.forEach((likelihood, lIdx) => {
+            const colour = bands[cIdx]?.[lIdx] ?? 0;
+            cells.push({
+                consequence,
+                likelihood,
+                colour,
+                risk: bandLabels[colour] ?? String(colour + 1),
+                fill: fills?.[cIdx]?.[lIdx]
+            });
+        });
+    });
+
+    return cells;
+}
+
+/**
+ * Resolves the labels for an axis with `count` levels (lowest first).
+ * Labels come from a comma-separated list; missing, blank or duplicate entries
+ * fall back to the default label (when the count matches) or the level number.
+ */
+export function build_levels(count: number, labelsText: string, defaults: string[]): string[] {
+    const custom = (labelsText ?? "").split(",").map(s => s.trim());
+    const levels: string[] = [];
+
+    for (let i = 0; i < count; i++) {
+        const fallback = count === defaults.length ? defaults[i] : String(i + 1);
+        let label = custom[i] || fallback;
+        if (levels.includes(label)) label = `${label} (${i + 1})`;
+        levels.push(label);
+    }
+
+    return levels;
+}
+
+// band labels from a comma-separated list, lowest band first
+export function build_band_labels(labelsText: string, defaults: string[]): string[] {
+    const custom = (labelsText ?? "").split(",").map(s => s.trim()).filter(s => s.length > 0);
+    return custom.length > 0 ? custom : [...defaults];
+}
+
+export interface MatrixDefinitionRow {
+    consequence: unknown;
+    likelihood: unknown;
+    band: unknown;
+    colour?: unknown;
+}
+
+export interface MatrixDefinition {
+    consequenceCount: number;
+    likelihoodCount: number;
+    bandLabels: string[];
+    bands: BandGrid;
+    fills: CellFills;
+}
+
+/**
+ * Builds a matrix from definition rows (consequence level, likelihood level, band, optional colour).
+ * Levels are 1-based numbers; bands are either 1-based numbers or labels, which are ordered
+ * by the average position of their cells. Any gap or conflict is reported as a problem
+ * so the caller can fall back to the built-in matrix.
+ */
+export function parse_matrix_definition(
+    rows: MatrixDefinitionRow[],
+    defaultBandLabels: string[]
+): { definition?: MatrixDefinition; problem?: string } {
+    const entries: Array<{ c: number; l: number; band: string; colour?: string }> = [];
+
+    for (const row of rows) {
+        const c = Number(row.consequence);
+        const l = Number(row.likelihood);
+        if (!Number.isInteger(c) || !Number.isInteger(l) || c < 1 || l < 1 || c > MAX_LEVELS || l > MAX_LEVELS) {
+            return { problem: `invalid level "${String(row.consequence)}/${String(row.likelihood)}"` };
+        }
+
+        const band = row.band == null ? "" : String(row.band).trim();
+        if (!band) return { problem: `no band for cell ${c}/${l}` };
+
+        const colour = row.colour == null ? "" : String(row.colour).trim();
+        entries.push({ c, l, band, colour: colour || undefined });
+    }
+
+    if (entries.length === 0) return { problem: "the definition table is empty" };
+
+    const consequenceCount = Math.max(...entries.map(e => e.c));
+    const likelihoodCount = Math.max(...entries.map(e => e.l));
+    if (consequenceCount < MIN_LEVELS || likelihoodCount < MIN_LEVELS) {
+        return { problem: `at least ${MIN_LEVELS} levels are needed on each axis` };
+    }
+
+    let bandLabels: string[];
+    let bandIndex: (band: string) => number;
+
+    if (entries.every(e => /^\d+$/.test(e.band) && Number(e.band) >= 1)) {
+        const count = Math.max(...entries.map(e => Number(e.band)));
+        bandLabels = count === defaultBandLabels.length
+            ? [...defaultBandLabels]
+            : Array.from({ length: count }, (_, i) => `Band ${i + 1}`);
+        bandIndex = band => Number(band) - 1;
+    } else {
+        const positions = new Map<string, number[]>();
+        for (const e of entries) {
+            positions.set(e.band, [...(positions.get(e.band) ?? []), e.c * e.l]);
+        }
+        const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+        bandLabels = [...positions.keys()].sort((a, b) => mean(positions.get(a)) - mean(positions.get(b)));
+        bandIndex = band => bandLabels.indexOf(band);
+    }
+
+    const bands: BandGrid = Array.from({ length: consequenceCount }, () => new Array<number>(likelihoodCount).fill(-1));
+    const fills: CellFills = Array.from({ length: consequenceCount }, () => new Array<string | undefined>(likelihoodCount));
+
+    for (const e of entries) {
+        const idx = bandIndex(e.band);
+        const existing = bands[e.c - 1][e.l - 1];
+        if (existing !== -1 && existing !== idx) return { problem: `conflicting bands for cell ${e.c}/${e.l}` };
+        bands[e.c - 1][e.l - 1] = idx;
+        fills[e.c - 1][e.l - 1] = fills[e.c - 1][e.l - 1] ?? e.colour;
+    }
+
+    const missing = bands.reduce((n, column) => n + column.filter(b => b === -1).length, 0);
+    if (missing > 0) {
+        return { problem: `${missing} of ${consequenceCount * likelihoodCount} cells have no band` };
+    }
+
+    return { definition: { consequenceCount, likelihoodCount, bandLabels, bands, fills } };
+}
+
+// lower-cased text or code → 1-based level
+export type RatingMapping = Map<string, number>;
+
+/**
+ * Parses a rating mapping: one line (or ";"-separated entry) per level, as
+ * "level: alias, alias, ...", e.g. "5: Almost Certain, AC, 100000004".
+ * Aliases are matched case-insensitively; lines without a valid level are ignored.
+ */
+export function parse_rating_mapping(text: string): RatingMapping {
+    const mapping: RatingMapping = new Map();
+
+    for (const entry of (text ?? "").split(/[\n;]+/)) {
+        const separator = entry.indexOf(":");
+        if (separator < 0) continue;
+
+        const level = Number(entry.slice(0, separator).trim());
+        if (!Number.isInteger(level) || level < 1) continue;
+
+        entry.slice(separator + 1).split(",")
+            .map(alias => alias.trim().toLowerCase())
+            .filter(alias => alias.length > 0)
+            .forEach(alias => mapping.set(alias, level));
+    }
+
+    return mapping;
+}
+
+/**
+ * Resolves a rating value to a 1-based level: the mapping first, then the axis
+ * labels (case-insensitive), then a plain number within 1..levels.length. Returns null
+ * when nothing matches, so an unmapped code such as 100000003 is reported rather than
+ * taken as a level.
+ */
+export function resolve_rating(value: unknown, mapping: RatingMapping, levels: string[]): number | null {
+    if (value == null) return null;
+
+    const key = String(value).trim().toLowerCase();
+    if (key.length === 0) return null;
+
+    const mapped = mapping.get(key);
+    if (mapped != null) return mapped;
+
+    const labelIdx = levels.findIndex(l => l.toLowerCase() === key);
+    if (labelIdx >= 0) return labelIdx + 1;
+
+    const n = Math.floor(Number(key));
+    return n >= 1 && n <= levels.length ? n : null;
+}
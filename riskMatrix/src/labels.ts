@@ -0,0 +1,127 @@
+import type { MarkBox, MarkExtent } from "./layout";
+
+const LABEL_GAP     = 4;   // px between a circle and a label placed beside it
+const INSIDE_FILL   = 0.9; // share of the diameter a label may use and still sit inside its circle
+
+interface Rect {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+export interface LabelInput {
+    key: string;
+    text: string;
+    cx: number;
+    cy: number;
+    r: number;
+    bounds: Rect; // the label must stay inside this area (its cell)
+}
+
+export interface PlacedLabel {
+    key: string;
+    text: string;
+    inside: boolean;    // drawn on top of its circle
+    x: number;
+    y: number;          // vertical centre of the text
+    anchor: "start" | "middle" | "end";
+    leader: [number, number, number, number] | null; // circle edge → label box
+}
+
+export function truncate_label(text: string, maxLength: number): string {
+    if (maxLength <= 0 || text.length <= maxLength) return text;
+    return `${text.slice(0, Math.max(1, maxLength - 1)).trimEnd()}…`;
+}
+
+function fits_inside(r: number, [w, h]: MarkBox): boolean {
+    return w <= r * 2 * INSIDE_FILL && h <= r * 2 * INSIDE_FILL;
+}
+
+// space a mark of radius r needs for its label where place_labels tries it first: inside, or on the right
+export function mark_extent(r: number, label: MarkBox): MarkExtent {
+    if (fits_inside(r, label)) return { left: r, right: r, halfHeight: r };
+    return { left: r, right: r + LABEL_GAP + label[0], halfHeight: Math.max(r, label[1] / 2) };
+}
+
+function overlap(a: Rect, b: Rect): number {
+    const w = Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+    const h = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+    return w > 0 && h > 0 ? w * h : 0;
+}
+
+// area of the box that falls outside the bounds
+function spill(box: Rect, bounds: Rect): number {
+    return (box.x1 - box.x0) * (box.y1 - box.y0) - overlap(box, bounds);
+}
+
+/**
+ * Places each label inside its circle when it fits, otherwise beside it: right, left, above
+ * or below, first next to the circle and then further out with a leader line. The first
+ * position that stays in its cell and clears every circle and earlier label wins; if none
+ * does, the one with the least overlap is used.
+ */
+export function place_labels(
+    inputs: LabelInput[],
+    measure: (text: string) => MarkBox
+): PlacedLabel[] {
+    const circles: Rect[] = inputs.map(d => ({ x0: d.cx - d.r, y0: d.cy - d.r, x1: d.cx + d.r, y1: d.cy + d.r }));
+    const taken: Rect[] = [];
+
+    return inputs.map(d => {
+        const [w, h] = measure(d.text);
+
+        if (fits_inside(d.r, [w, h])) {
+            return { key: d.key, text: d.text, inside: true, x: d.cx, y: d.cy, anchor: "middle", leader: null };
+        }
+
+        const candidates: Array<Omit<PlacedLabel, "key" | "text" | "inside"> & { box: Rect }> = [];
+        for (const distance of [LABEL_GAP, LABEL_GAP + d.r]) {
+            const offset = d.r + distance;
+            const leader = (ex: number, ey: number, lx: number, ly: number): [number, number, number, number] | null =>
+                distance > LABEL_GAP ? [d.cx + ex * d.r, d.cy + ey * d.r, lx, ly] : null;
+
+            candidates.push(
+                {
+                    x: d.cx + offset, y: d.cy, anchor: "start",
+                    box: { x0: d.cx + offset, y0: d.cy - h / 2, x1: d.cx + offset + w, y1: d.cy + h / 2 },
+                    leader: leader(1, 0, d.cx + offset, d.cy)
+                },
+                {
+                    x: d.cx - offset, y: d.cy, anchor: "end",
+                    box: { x0: d.cx - offset - w, y0: d.cy - h / 2, x1: d.cx - offset, y1: d.cy + h / 2 },
+                    leader: leader(-1, 0, d.cx - offset, d.cy)
+                },
+                {
+                    x: d.cx, y: d.cy - offset - h / 2, anchor: "middle",
+                    box: { x0: d.cx - w / 2, y0: d.cy - offset - h, x1: d.cx + w / 2, y1: d.cy - offset },
+                    leader: leader(0, -1, d.cx, d.cy - offset)
+                },
+                {
+                    x: d.cx, y: d.cy + offset + h / 2, anchor: "middle",
+                    box: { x0: d.cx - w / 2, y0: d.cy + offset, x1: d.cx + w / 2, y1: d.cy + offset + h },
+                    leader: leader(0, 1, d.cx, d.cy + offset)
+                }
+            );
+        }
+
+        const cost = (box: Rect) =>
+            spill(box, d.bounds) * 2
+            + circles.reduce((sum, c) => sum + overlap(box, c), 0)
+            + taken.reduce((sum, t) => sum + overlap(box, t), 0);
+
+        let best = candidates[0];
+        let bestCost = Infinity;
+        for (const candidate of candidates) {
+            const c = cost(candidate.box);
+            if (c < bestCost) {
+                best = candidate;
+                bestCost = c;
+            }
+            if (c === 0) break;
+        }
+
+        taken.push(best.box);
+        return { key: d.key, text: d.text, inside: false, x: best.x, y: best.y, anchor: best.anchor, leader: best.leader };
+    });
+}
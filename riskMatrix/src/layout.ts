@@ -0,0 +1,292 @@
+import * as d3 from "d3";
+
+// Tunables (adjust to taste)
+const RADIUS_FACTOR = 0.10; // % of min(cellW, cellH) used for circle radius
+const POINT_HALO    = 8;    // px added to the scaled radius so a short label fits inside the circle
+const GAP_FACTOR    = 0.3;  // >= 0 : extra gap between circles, as a fraction of the scaled radius
+const INNER_PAD_FR  = 0.5;  // gap (in scaled radii) kept between the cell border and the nearest circle edge
+const FORCE_TICKS   = 120;  // fixed iteration count, so the result only depends on the input
+
+/**
+ * Point size and placement area for one matrix cell, shared by every layout strategy.
+ * Offsets returned by a strategy are relative to the cell centre and stay within
+ * ±usableW/2, ±usableH/2, so each circle (centre ± radius) stays inside the cell padding.
+ */
+export interface CellGeometry {
+    radius: number;   // drawn radius of each point (the largest, when sizes vary)
+    gap: number;      // preferred space between neighbouring circles
+    usableW: number;  // span available to point centres
+    usableH: number;
+    capacity: number; // points that fit on the grid without overlapping
+}
+
+export type MarkBox = [number, number]; // [width, height]
+
+// footprint of a mark around its centre: its circle and, when drawn beside it, its label
+export interface MarkExtent {
+    left: number;       // from the centre to the left edge
+    right: number;      // from the centre to the right edge
+    halfHeight: number;
+}
+
+export interface LayoutStrategy {
+    key: string;
+    displayName: string;
+    // centre offsets for each id, with ids.length <= geometry.capacity; extents (when given) align with ids
+    positions(ids: string[], geometry: CellGeometry, extents?: MarkExtent[]): Array<[number, number]>;
+}
+
+export const DEFAULT_LAYOUT = "grid";
+
+// maxRadius: the largest marker in the cell when a size measure is bound, otherwise the size follows the cell
+export function cell_geometry(cellW: number, cellH: number, maxRadius?: number): CellGeometry {
+    const scaled = Math.max(4, Math.min(cellW, cellH) * RADIUS_FACTOR);
+    const radius = maxRadius ?? scaled + POINT_HALO;
+    const pad = Math.max(2, scaled * INNER_PAD_FR);
+
+    const usableW = Math.max(0, cellW - (pad + radius) * 2);
+    const usableH = Math.max(0, cellH - (pad + radius) * 2);
+
+    const cols = Math.floor(usableW / (radius * 2)) + 1;
+    const rows = Math.floor(usableH / (radius * 2)) + 1;
+
+    return { radius, gap: Math.max(2, scaled * GAP_FACTOR), usableW, usableH, capacity: cols * rows };
+}
+
+/**
+ * Best‑fit rectangular grid: picks (cols, rows) that fit the usable area and maximize the minimum pitch.
+ */
+function grid_positions(n: number, g: CellGeometry): Array<[number, number]> {
+    const diameter = g.radius * 2;
+    const hardCols = Math.floor(g.usableW / diameter) + 1; // the absolute max with no gap
+    const hardRows = Math.floor(g.usableH / diameter) + 1;
+
+    let best: { cols: number; rows: number; pitch: number } | null = null;
+    for (let cols = 1; cols <= hardCols; cols++) {
+        const rows = Math.max(1, Math.ceil(n / cols));
+        if (rows > hardRows) continue;
+
+        // single column/row → no pitch constraint on that axis
+        const pitchX = cols > 1 ? g.usableW / (cols - 1) : Infinity;
+        const pitchY = rows > 1 ? g.usableH / (rows - 1) : Infinity;
+        const pitch = Math.min(pitchX, pitchY);
+        if (!best || pitch > best.pitch) best = { cols, rows, pitch };
+    }
+
+    // more points than the grid holds: wrap rows so the extras overlap rather than leave the cell
+    const cols = best?.cols ?? hardCols;
+    const rows = best?.rows ?? hardRows;
+    const pitchX = cols > 1 ? g.usableW / (cols - 1) : 0;
+    const pitchY = rows > 1 ? g.usableH / (rows - 1) : 0;
+    const cx0 = -((cols - 1) * pitchX) / 2;
+    const cy0 = -((rows - 1) * pitchY) / 2;
+
+    const pos: Array<[number, number]> = [];
+    for (let i = 0; i < n; i++) {
+        const r = Math.floor(i / cols) % rows;
+        const c = i % cols;
+        pos.push([cx0 + c * pitchX, cy0 + r * pitchY]);
+    }
+    return pos;
+}
+
+// staggered rows at the widest pitch that fits; falls back to the grid when no hex arrangement does
+function hex_positions(n: number, g: CellGeometry): Array<[number, number]> {
+    if (n <= 1) return [[0, 0]];
+
+    const diameter = g.radius * 2;
+    const rowFactor = Math.sqrt(3) / 2; // row spacing per unit pitch
+
+    let best: { cols: number; rows: number; pitch: number } | null = null;
+    for (let cols = 1; cols <= n; cols++) {
+        const rows = Math.ceil(n / cols);
+        const widthUnits = (cols - 1) + (rows > 1 ? 0.5 : 0);
+        const pitchX = widthUnits > 0 ? g.usableW / widthUnits : Infinity;
+        const pitchY = rows > 1 ? g.usableH / ((rows - 1) * rowFactor) : Infinity;
+        const pitch = Math.min(pitchX, pitchY);
+        if (pitch >= diameter && (!best || pitch > best.pitch)) best = { cols, rows, pitch };
+    }
+    if (!best) return grid_positions(n, g);
+
+    // keep the cluster compact rather than stretched to the cell edges
+    const pitch = Math.min(best.pitch, diameter + g.gap);
+    const gridW = (best.cols - 1) * pitch + (best.rows > 1 ? pitch / 2 : 0);
+    const gridH = (best.rows - 1) * pitch * rowFactor;
+
+    const pos: Array<[number, number]> = [];
+    for (let i = 0; i < n; i++) {
+        const r = Math.floor(i / best.cols);
+        const c = i % best.cols;
+        const offset = r % 2 === 1 ? pitch / 2 : 0;
+        pos.push([-gridW / 2 + offset + c * pitch, -gridH / 2 + r * pitch * rowFactor]);
+    }
+    return pos;
+}
+
+// Archimedean spiral from the centre outwards, one pitch between turns and between neighbours;
+// falls back to hex packing when the spiral would leave the usable area
+function spiral_positions(n: number, g: CellGeometry): Array<[number, number]> {
+    const pitch = g.radius * 2 + g.gap;
+    const b = pitch / (2 * Math.PI); // radius grows by one pitch per turn
+
+    const pos: Array<[number, number]> = [[0, 0]];
+    let theta = 2 * Math.PI;
+    while (pos.length < n) {
+        const r = b * theta;
+        pos.push([r * Math.cos(theta), r * Math.sin(theta)]);
+        theta += pitch / r;
+    }
+
+    const fits = pos.every(([px, py]) => Math.abs(px) <= g.usableW / 2 && Math.abs(py) <= g.usableH / 2);
+    return fits ? pos : hex_positions(n, g);
+}
+
+// FNV-1a, so a risk hashes to the same slot on every render
+function hash(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+// each id claims the grid slot its hash points at (next free slot on a clash), so points stay put as others come and go
+function hash_positions(ids: string[], g: CellGeometry): Array<[number, number]> {
+    const slots = grid_positions(Math.max(g.capacity, ids.length), g);
+    const taken = new Array<boolean>(slots.length).fill(false);
+
+    return ids.map(id => {
+        let slot = hash(id) % slots.length;
+        while (taken[slot]) slot = (slot + 1) % slots.length;
+        taken[slot] = true;
+        return slots[slot];
+    });
+}
+
+interface ForceNode {
+    x: number;
+    y: number;
+    vx?: number;
+    vy?: number;
+    offsetX: number; // from the mark centre to the centre of its box
+    halfW: number;
+    halfH: number;
+    minX: number;    // range of the mark centre that keeps the whole box inside the cell
+    maxX: number;
+    limitY: number;
+}
+
+// pushes overlapping boxes apart along the axis of least overlap
+function box_collide(strength: number) {
+    let nodes: ForceNode[] = [];
+
+    const force = (alpha: number) => {
+        for (let i = 0; i < nodes.length; i++) {
+            for (let j = i + 1; j < nodes.length; j++) {
+                const a = nodes[i], b = nodes[j];
+                const dx = (b.x + b.offsetX + b.vx) - (a.x + a.offsetX + a.vx);
+                const dy = (b.y + b.vy) - (a.y + a.vy);
+                const overlapX = a.halfW + b.halfW - Math.abs(dx);
+                const overlapY = a.halfH + b.halfH - Math.abs(dy);
+                if (overlapX <= 0 || overlapY <= 0) continue;
+
+                if (overlapX < overlapY) {
+                    const shift = overlapX / 2 * strength * Math.max(alpha, 0.1) * (dx < 0 ? -1 : 1);
+                    a.vx -= shift;
+                    b.vx += shift;
+                } else {
+                    const shift = overlapY / 2 * strength * Math.max(alpha, 0.1) * (dy < 0 ? -1 : 1);
+                    a.vy -= shift;
+                    b.vy += shift;
+                }
+            }
+        }
+    };
+    force.initialize = (n: ForceNode[]) => { nodes = n; };
+
+    return force;
+}
+
+// d3-force relaxation of the hex packing, treating circles and label boxes as obstacles
+function force_positions(ids: string[], g: CellGeometry, extents?: MarkExtent[]): Array<[number, number]> {
+    const seed = hex_positions(ids.length, g);
+    if (ids.length <= 1) return seed;
+
+    const nodes: ForceNode[] = ids.map((_, i) => {
+        const { left, right, halfHeight } = extents?.[i] ?? { left: g.radius, right: g.radius, halfHeight: g.radius };
+        const edgeX = g.usableW / 2 + g.radius;
+        let minX = Math.max(-g.usableW / 2, left - edgeX);
+        let maxX = Math.min(g.usableW / 2, edgeX - right);
+        // a box wider than the cell is centred as far as the circle allows
+        if (minX > maxX) minX = maxX = Math.max(-g.usableW / 2, Math.min(g.usableW / 2, (left - right) / 2));
+        return {
+            x: seed[i][0],
+            y: seed[i][1],
+            offsetX: (right - left) / 2,
+            halfW: (left + right) / 2 + g.gap / 2,
+            halfH: halfHeight + g.gap / 2,
+            minX,
+            maxX,
+            limitY: Math.max(0, g.usableH / 2 + g.radius - halfHeight)
+        };
+    });
+
+    const simulation = d3.forceSimulation(nodes)
+        .randomSource(d3.randomLcg(hash(ids.join("|")) / 0x100000000))
+        .force("collide", box_collide(1))
+        .force("x", d3.forceX((_: ForceNode, i: number) => seed[i][0]).strength(0.05))
+        .force("y", d3.forceY((_: ForceNode, i: number) => seed[i][1]).strength(0.05))
+        .stop();
+
+    for (let t = 0; t < FORCE_TICKS; t++) {
+        simulation.tick();
+        for (const node of nodes) {
+            node.x = Math.max(node.minX, Math.min(node.maxX, node.x));
+            node.y = Math.max(-node.limitY, Math.min(node.limitY, node.y));
+        }
+    }
+
+    return nodes.map(node => [node.x, node.y] as [number, number]);
+}
+
+export interface PanelGrid {
+    cols: number;
+    rows: number;
+    panelWidth: number;
+    panelHeight: number; // including the header
+}
+
+/**
+ * Rows and columns for n small-multiple panels in the given area, choosing the
+ * arrangement whose matrices (panel less header) have the largest shorter side.
+ */
+export function panel_grid(n: number, width: number, height: number, gap: number, header: number): PanelGrid {
+    let best: PanelGrid | null = null;
+    let bestSide = -Infinity;
+
+    for (let cols = 1; cols <= Math.max(1, n); cols++) {
+        const rows = Math.max(1, Math.ceil(n / cols));
+        const panelWidth = Math.max(0, (width - gap * (cols - 1)) / cols);
+        const panelHeight = Math.max(0, (height - gap * (rows - 1)) / rows);
+        const side = Math.min(panelWidth, panelHeight - header);
+        if (side > bestSide) {
+            best = { cols, rows, panelWidth, panelHeight };
+            bestSide = side;
+        }
+    }
+
+    return best!;
+}
+
+export const LAYOUT_STRATEGIES: LayoutStrategy[] = [
+    { key: "grid", displayName: "Grid", positions: (ids, g) => grid_positions(ids.length, g) },
+    { key: "hex", displayName: "Hex packing", positions: (ids, g) => hex_positions(ids.length, g) },
+    { key: "spiral", displayName: "Spiral", positions: (ids, g) => spiral_positions(ids.length, g) },
+    { key: "hash", displayName: "Stable (hashed)", positions: hash_positions },
+    { key: "force", displayName: "Avoid label overlap", positions: force_positions }
+];
+
+export function find_layout(key: string): LayoutStrategy {
+    return LAYOUT_STRATEGIES.find(l => l.key === key) ?? LAYOUT_STRATEGIES[0];
+}
@@ -0,0 +1,131 @@
+import {
+    bands_from_matrix,
+    create_base_matrix,
+    DEFAULT_CONSEQUENCE_LEVELS,
+    DEFAULT_LIKELIHOOD_LEVELS,
+    parse_band_grid
+} from "./helper";
+import type { BandGrid } from "./helper";
+
+export interface MatrixPreset {
+    key: string;
+    displayName: string;
+    consequenceLevels: string[]; // lowest first
+    likelihoodLevels: string[];  // lowest first
+    bandLabels: string[];        // lowest first; band index = cell colour
+    bands: BandGrid;
+}
+
+export const DEFAULT_PRESET = "default";
+export const CUSTOM_PRESET = "custom";
+
+// grid rows are written as the matrix is drawn: highest likelihood first, consequence left to right
+function preset(
+    key: string,
+    displayName: string,
+    consequenceLevels: string[],
+    likelihoodLevels: string[],
+    bandLabels: string[],
+    grid: string[]
+): MatrixPreset {
+    const empty = consequenceLevels.map(() => likelihoodLevels.map(() => 0));
+    const bands = parse_band_grid(grid.join("\n"), consequenceLevels.length, likelihoodLevels.length, bandLabels.length, empty);
+    return { key, displayName, consequenceLevels, likelihoodLevels, bandLabels, bands };
+}
+
+export const MATRIX_PRESETS: MatrixPreset[] = [
+    {
+        key: DEFAULT_PRESET,
+        displayName: "Default (5×5)",
+        consequenceLevels: DEFAULT_CONSEQUENCE_LEVELS,
+        likelihoodLevels: DEFAULT_LIKELIHOOD_LEVELS,
+        bandLabels: ["Low", "Moderate", "High", "Extreme"],
+        bands: bands_from_matrix(create_base_matrix(), DEFAULT_CONSEQUENCE_LEVELS, DEFAULT_LIKELIHOOD_LEVELS)
+    },
+    preset(
+        "iso31000",
+        "ISO 31000 style (5×5)",
+        ["Insignificant", "Minor", "Moderate", "Major", "Severe"],
+        ["Rare", "Unlikely", "Possible", "Likely", "Almost Certain"],
+        ["Low", "Medium", "High", "Very High"],
+        [
+            "2 3 3 4 4",
+            "2 2 3 3 4",
+            "1 2 2 3 3",
+            "1 1 2 2 3",
+            "1 1 1 2 2"
+        ]
+    ),
+    preset(
+        "asnzs4360",
+        "AS/NZS 4360 (5×5)",
+        ["Insignificant", "Minor", "Moderate", "Major", "Catastrophic"],
+        ["Rare", "Unlikely", "Moderate", "Likely", "Almost Certain"],
+        ["Low", "Moderate", "High", "Extreme"],
+        [
+            "3 3 4 4 4",
+            "2 3 3 4 4",
+            "1 2 3 4 4",
+            "1 1 2 3 4",
+            "1 1 2 3 3"
+        ]
+    ),
+    preset(
+        "stateGovernment",
+        "State government (5×5)",
+        ["Minimal", "Minor", "Moderate", "Major", "Extreme"],
+        ["Rare", "Unlikely", "Possible", "Likely", "Almost Certain"],
+        ["Low", "Medium", "High", "Very High", "Extreme"],
+        [
+            "2 3 4 5 5",
+            "2 3 4 4 5",
+            "1 2 3 4 4",
+            "1 1 2 3 4",
+            "1 1 2 2 3"
+        ]
+    ),
+    preset(
+        "healthSac",
+        "Health SAC (5×5)",
+        ["Minimum", "Minor", "Moderate", "Major", "Serious"],
+        ["Rare", "Unlikely", "Possible", "Likely", "Frequent"],
+        ["SAC 4", "SAC 3", "SAC 2", "SAC 1"],
+        [
+            "2 2 3 4 4",
+            "1 2 3 4 4",
+            "1 2 3 3 4",
+            "1 1 2 3 4",
+            "1 1 2 2 3"
+        ]
+    ),
+    preset(
+        "simple4x4",
+        "Simple (4×4)",
+        ["Minor", "Moderate", "Major", "Severe"],
+        ["Unlikely", "Possible", "Likely", "Almost Certain"],
+        ["Low", "Moderate", "High", "Extreme"],
+        [
+            "2 3 4 4",
+            "2 2 3 4",
+            "1 2 3 3",
+            "1 1 2 3"
+        ]
+    ),
+    preset(
+        "simple3x3",
+        "Simple (3×3)",
+        ["Low", "Medium", "High"],
+        ["Low", "Medium", "High"],
+        ["Low", "Medium", "High"],
+        [
+            "2 3 3",
+            "1 2 3",
+            "1 1 2"
+        ]
+    )
+];
+
+// unknown keys (e.g. a preset removed from the catalogue) resolve to the default
+export function find_preset(key: string): MatrixPreset {
+    return MATRIX_PRESETS.find(p => p.key === key) ?? MATRIX_PRESETS[0];
+}
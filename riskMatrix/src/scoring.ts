@@ -0,0 +1,83 @@
+import type { BandGrid } from "./helper";
+
+// score per cell, indexed [consequence][likelihood] with both axes lowest first, like BandGrid
+export type ScoreGrid = number[][];
+
+export interface ScoringModel {
+    key: string;
+    displayName: string;
+}
+
+export const DEFAULT_SCORING = "multiplicative";
+
+export const SCORING_MODELS: ScoringModel[] = [
+    { key: "multiplicative", displayName: "Likelihood × consequence" },
+    { key: "additive", displayName: "Weighted sum" },
+    { key: "lookup", displayName: "Lookup table" }
+];
+
+export interface ScoringOptions {
+    model: string;
+    consequenceWeight: number;
+    likelihoodWeight: number;
+    table: string; // lookup scores, laid out like the cell bands text
+}
+
+/**
+ * Scores every cell from its 1-based levels. A lookup table is read like the cell bands
+ * text (highest likelihood first); cells it leaves out are scored as likelihood × consequence.
+ */
+export function score_grid(consequenceCount: number, likelihoodCount: number, options: ScoringOptions): ScoreGrid {
+    const formula = options.model === "additive"
+        ? (c: number, l: number) => c * options.consequenceWeight + l * options.likelihoodWeight
+        : (c: number, l: number) => c * l;
+
+    const grid: ScoreGrid = Array.from({ length: consequenceCount }, (_, cIdx) =>
+        Array.from({ length: likelihoodCount }, (_, lIdx) => formula(cIdx + 1, lIdx + 1))
+    );
+    if (options.model !== "lookup") return grid;
+
+    const rows = (options.table ?? "").split(/[\n;]+/).map(r => r.trim()).filter(r => r.length > 0);
+    rows.slice(0, likelihoodCount).forEach((row, r) => {
+        const lIdx = likelihoodCount - 1 - r;
+        row.split(/[\s,]+/).slice(0, consequenceCount).forEach((entry, cIdx) => {
+            const score = Number(entry);
+            if (entry.length > 0 && Number.isFinite(score)) grid[cIdx][lIdx] = score;
+        });
+    });
+
+    return grid;
+}
+
+// lowest score of each band after the first, e.g. "5, 10, 17"; invalid entries are dropped
+export function parse_thresholds(text: string): number[] {
+    return (text ?? "").split(/[\s,;]+/)
+        .filter(entry => entry.length > 0)
+        .map(Number)
+        .filter(Number.isFinite)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Bands each cell by the number of thresholds its score reaches. Without thresholds
+ * the score range is split into equal steps, one per band.
+ */
+export function bands_from_scores(scores: ScoreGrid, thresholds: number[], bandCount: number): BandGrid {
+    let steps = thresholds;
+    if (steps.length === 0) {
+        const all = scores.flat();
+        const min = Math.min(...all);
+        const max = Math.max(...all);
+        // every cell scores the same, so there is nothing to split
+        if (!(max > min)) return scores.map(column => column.map(() => 0));
+        steps = Array.from({ length: bandCount - 1 }, (_, i) => min + (max - min) * (i + 1) / bandCount);
+    }
+
+    return scores.map(column => column.map(score =>
+        Math.min(steps.filter(t => score >= t).length, bandCount - 1)
+    ));
+}
+
+export function format_score(score: number): string {
+    return String(Math.round(score * 100) / 100);
+}
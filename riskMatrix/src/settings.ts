@@ -26,49 +26,815 @@
 
 "use strict";
 
+import powerbi from "powerbi-visuals-api";
 import { formattingSettings } from "powerbi-visuals-utils-formattingmodel";
+import { MAX_BANDS, MAX_LEVELS, MIN_LEVELS } from "./helper";
+import { DEFAULT_LAYOUT, LAYOUT_STRATEGIES } from "./layout";
+import { CUSTOM_PRESET, DEFAULT_PRESET, MATRIX_PRESETS } from "./presets";
+import { DEFAULT_SCORING, SCORING_MODELS } from "./scoring";
 
 import FormattingSettingsCard = formattingSettings.SimpleCard;
 import FormattingSettingsSlice = formattingSettings.Slice;
 import FormattingSettingsModel = formattingSettings.Model;
 
+const DEFAULT_FONT_FAMILY = "Segoe UI, wf_segoe-ui_normal, helvetica, arial, sans-serif";
+
+function fontControl(fontSize: number, bold: boolean, italic: boolean): formattingSettings.FontControl {
+    return new formattingSettings.FontControl({
+        name: "font",
+        displayName: "Font",
+        fontFamily: new formattingSettings.FontPicker({
+            name: "fontFamily",
+            value: DEFAULT_FONT_FAMILY
+        }),
+        fontSize: new formattingSettings.NumUpDown({
+            name: "fontSize",
+            value: fontSize
+        }),
+        bold: new formattingSettings.ToggleSwitch({
+            name: "bold",
+            value: bold
+        }),
+        italic: new formattingSettings.ToggleSwitch({
+            name: "italic",
+            value: italic
+        })
+    });
+}
+
 /**
- * Data Point Formatting Card
+ * Title Formatting Card
  */
-class DataPointCardSettings extends FormattingSettingsCard {
-    defaultColor = new formattingSettings.ColorPicker({
-        name: "defaultColor",
-        displayName: "Default color",
-        value: { value: "" }
+class TitleCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show",
+        value: true
+    });
+
+    text = new formattingSettings.TextInput({
+        name: "text",
+        displayName: "Text",
+        placeholder: "Title",
+        value: "Risk Matrix"
+    });
+
+    font = fontControl(20, true, false);
+
+    fontColor = new formattingSettings.ColorPicker({
+        name: "fontColor",
+        displayName: "Color",
+        value: { value: "#000000" }
     });
 
-    showAllDataPoints = new formattingSettings.ToggleSwitch({
-        name: "showAllDataPoints",
-        displayName: "Show all",
+    name: string = "title";
+    displayName: string = "Title";
+    topLevelSlice = this.show;
+    slices: Array<FormattingSettingsSlice> = [this.text, this.font, this.fontColor];
+}
+
+/**
+ * Subtitle Formatting Card
+ */
+class SubtitleCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show",
         value: true
     });
 
+    text = new formattingSettings.TextInput({
+        name: "text",
+        displayName: "Text",
+        placeholder: "Subtitle",
+        value: "Interactive Heat Map of Risks in manageCompliance"
+    });
+
+    font = fontControl(12, false, true);
+
+    fontColor = new formattingSettings.ColorPicker({
+        name: "fontColor",
+        displayName: "Color",
+        value: { value: "#000000" }
+    });
+
+    name: string = "subtitle";
+    displayName: string = "Subtitle";
+    topLevelSlice = this.show;
+    slices: Array<FormattingSettingsSlice> = [this.text, this.font, this.fontColor];
+}
+
+/**
+ * Axes Formatting Card
+ */
+class AxesCardSettings extends FormattingSettingsCard {
+    xTitle = new formattingSettings.TextInput({
+        name: "xTitle",
+        displayName: "Consequence title",
+        placeholder: "Consequence",
+        value: "Consequence"
+    });
+
+    yTitle = new formattingSettings.TextInput({
+        name: "yTitle",
+        displayName: "Likelihood title",
+        placeholder: "Likelihood",
+        value: "Likelihood"
+    });
+
+    titleFont = new formattingSettings.FontControl({
+        name: "titleFont",
+        displayName: "Title font",
+        fontFamily: new formattingSettings.FontPicker({
+            name: "titleFontFamily",
+            value: DEFAULT_FONT_FAMILY
+        }),
+        fontSize: new formattingSettings.NumUpDown({
+            name: "titleFontSize",
+            value: 12
+        }),
+        bold: new formattingSettings.ToggleSwitch({
+            name: "titleBold",
+            value: true
+        })
+    });
+
+    labelFontSize = new formattingSettings.NumUpDown({
+        name: "labelFontSize",
+        displayName: "Label text size",
+        value: 10
+    });
+
+    fontColor = new formattingSettings.ColorPicker({
+        name: "fontColor",
+        displayName: "Color",
+        value: { value: "#000000" }
+    });
+
+    name: string = "axes";
+    displayName: string = "Axes";
+    slices: Array<FormattingSettingsSlice> = [this.xTitle, this.yTitle, this.titleFont, this.labelFontSize, this.fontColor];
+}
+
+const cellClickItems: powerbi.IEnumMember[] = [
+    { value: "select", displayName: "Select risks" },
+    { value: "filter", displayName: "Filter by ratings" }
+];
+
+/**
+ * Cells Formatting Card
+ * "Filter by ratings" makes a cell click filter the page on the consequence and likelihood fields;
+ * when either is a measure, which has no column to filter, the click selects instead.
+ */
+class CellsCardSettings extends FormattingSettingsCard {
+    clickAction = new formattingSettings.ItemDropdown({
+        name: "clickAction",
+        displayName: "On click",
+        items: cellClickItems,
+        value: cellClickItems[0]
+    });
+
+    borderColor = new formattingSettings.ColorPicker({
+        name: "borderColor",
+        displayName: "Border color",
+        value: { value: "#eeeeee" }
+    });
+
+    borderWidth = new formattingSettings.NumUpDown({
+        name: "borderWidth",
+        displayName: "Border width",
+        value: 1,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 10 }
+        }
+    });
+
+    padding = new formattingSettings.Slider({
+        name: "padding",
+        displayName: "Spacing (%)",
+        value: 3,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 30 }
+        }
+    });
+
+    name: string = "cells";
+    displayName: string = "Cells";
+    slices: Array<FormattingSettingsSlice> = [this.clickAction, this.borderColor, this.borderWidth, this.padding];
+
+    get clickActionKey(): string {
+        return String(this.clickAction.value?.value ?? "select");
+    }
+}
+
+const displayModeItems: powerbi.IEnumMember[] = [
+    { value: "points", displayName: "Individual points" },
+    { value: "counts", displayName: "Cell counts" },
+    { value: "auto", displayName: "Automatic" }
+];
+
+const layoutItems: powerbi.IEnumMember[] = LAYOUT_STRATEGIES.map(l => ({ value: l.key, displayName: l.displayName }));
+
+/**
+ * Points Formatting Card
+ * "Automatic" switches to one count badge per cell once any cell holds more risks than the threshold.
+ */
+class PointsCardSettings extends FormattingSettingsCard {
+    displayMode = new formattingSettings.ItemDropdown({
+        name: "displayMode",
+        displayName: "Display as",
+        items: displayModeItems,
+        value: displayModeItems[2]
+    });
+
+    densityThreshold = new formattingSettings.NumUpDown({
+        name: "densityThreshold",
+        displayName: "Show counts above (risks per cell)",
+        value: 20,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 1000 }
+        }
+    });
+
+    layout = new formattingSettings.ItemDropdown({
+        name: "layout",
+        displayName: "Layout",
+        items: layoutItems,
+        value: layoutItems.find(i => i.value === DEFAULT_LAYOUT)
+    });
+
+    minRadius = new formattingSettings.NumUpDown({
+        name: "minRadius",
+        displayName: "Min size (px)",
+        description: "Radius of the smallest marker when a Size field is bound",
+        value: 6,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 2 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    maxRadius = new formattingSettings.NumUpDown({
+        name: "maxRadius",
+        displayName: "Max size (px)",
+        description: "Radius of the largest marker when a Size field is bound; limited to what fits in a cell",
+        value: 24,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 2 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
     fill = new formattingSettings.ColorPicker({
         name: "fill",
         displayName: "Fill",
-        value: { value: "" }
+        value: { value: "#17457a" }
+    });
+
+    strokeColor = new formattingSettings.ColorPicker({
+        name: "strokeColor",
+        displayName: "Outline color",
+        value: { value: "#24ae4b" }
+    });
+
+    strokeWidth = new formattingSettings.NumUpDown({
+        name: "strokeWidth",
+        displayName: "Outline width",
+        value: 2,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 10 }
+        }
+    });
+
+    opacity = new formattingSettings.Slider({
+        name: "opacity",
+        displayName: "Opacity (%)",
+        value: 90,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 10 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    name: string = "points";
+    displayName: string = "Points";
+    slices: Array<FormattingSettingsSlice> = [
+        this.displayMode, this.densityThreshold, this.layout, this.minRadius, this.maxRadius, this.fill, this.strokeColor, this.strokeWidth, this.opacity
+    ];
+
+    get layoutKey(): string {
+        return String(this.layout.value?.value ?? DEFAULT_LAYOUT);
+    }
+
+    get displayModeKey(): string {
+        return String(this.displayMode.value?.value ?? "auto");
+    }
+
+    onPreProcess(): void {
+        this.densityThreshold.visible = this.displayModeKey === "auto";
+    }
+}
+
+/**
+ * Labels Formatting Card
+ */
+class LabelsCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show",
+        value: true
+    });
+
+    autoSize = new formattingSettings.ToggleSwitch({
+        name: "autoSize",
+        displayName: "Fit text size to cells",
+        description: "Turn off to use the font size below",
+        value: true
     });
 
-    fillRule = new formattingSettings.ColorPicker({
-        name: "fillRule",
-        displayName: "Color saturation",
+    font = fontControl(12, true, false);
+
+    color = new formattingSettings.ColorPicker({
+        name: "color",
+        displayName: "Color",
+        description: "Used for labels drawn inside their circle",
+        value: { value: "#ffffff" }
+    });
+
+    outsideColor = new formattingSettings.ColorPicker({
+        name: "outsideColor",
+        displayName: "Outside color",
+        description: "Used for labels moved beside their circle",
+        value: { value: "#252423" }
+    });
+
+    maxLength = new formattingSettings.NumUpDown({
+        name: "maxLength",
+        displayName: "Max characters",
+        description: "Longer labels end in an ellipsis; 0 shows the full text",
+        value: 20,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 200 }
+        }
+    });
+
+    leaderLines = new formattingSettings.ToggleSwitch({
+        name: "leaderLines",
+        displayName: "Leader lines",
+        value: true
+    });
+
+    name: string = "labels";
+    displayName: string = "Labels";
+    topLevelSlice = this.show;
+    slices: Array<FormattingSettingsSlice> = [
+        this.autoSize, this.font, this.color, this.outsideColor, this.maxLength, this.leaderLines
+    ];
+}
+
+/**
+ * Band Colors Formatting Card
+ * One picker per band; the visual relabels them after the matrix's bands and hides the unused ones.
+ */
+class BandColoursCardSettings extends FormattingSettingsCard {
+    bandColours = Array.from({ length: MAX_BANDS }, (_, idx) => new formattingSettings.ColorPicker({
+        name: `band${idx + 1}`,
+        displayName: `Band ${idx + 1}`,
         value: { value: "" }
+    }));
+
+    name: string = "bandColours";
+    displayName: string = "Band colors";
+    slices: Array<FormattingSettingsSlice> = this.bandColours;
+}
+
+const ratingViewItems: powerbi.IEnumMember[] = [
+    { value: "inherent", displayName: "Inherent only" },
+    { value: "residual", displayName: "Residual only" },
+    { value: "both", displayName: "Inherent and residual" }
+];
+
+/**
+ * Ratings Formatting Card
+ * Only takes effect when the residual rating fields are bound.
+ */
+class RatingsCardSettings extends FormattingSettingsCard {
+    view = new formattingSettings.ItemDropdown({
+        name: "view",
+        displayName: "Show",
+        items: ratingViewItems,
+        value: ratingViewItems[2]
+    });
+
+    arrowColor = new formattingSettings.ColorPicker({
+        name: "arrowColor",
+        displayName: "Movement arrow color",
+        value: { value: "#444444" }
+    });
+
+    name: string = "ratings";
+    displayName: string = "Ratings";
+    slices: Array<FormattingSettingsSlice> = [this.view, this.arrowColor];
+
+    get viewKey(): string {
+        return String(this.view.value?.value ?? "both");
+    }
+}
+
+/**
+ * Targets Formatting Card
+ * Only takes effect when the target rating fields are bound.
+ */
+class TargetsCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show targets",
+        value: true
+    });
+
+    markerColor = new formattingSettings.ColorPicker({
+        name: "markerColor",
+        displayName: "Target marker color",
+        value: { value: "#605e5c" }
+    });
+
+    warningColor = new formattingSettings.ColorPicker({
+        name: "warningColor",
+        displayName: "Above-target warning color",
+        value: { value: "#d83b01" }
+    });
+
+    showSummary = new formattingSettings.ToggleSwitch({
+        name: "showSummary",
+        displayName: "Show summary in header",
+        value: true
+    });
+
+    name: string = "targets";
+    displayName: string = "Targets";
+    topLevelSlice = this.show;
+    slices: Array<FormattingSettingsSlice> = [this.markerColor, this.warningColor, this.showSummary];
+}
+
+const presetItems: powerbi.IEnumMember[] = MATRIX_PRESETS.map(p => ({ value: p.key, displayName: p.displayName }));
+
+/**
+ * Matrix Formatting Card
+ * A named preset fixes the levels and bands; "Custom" is seeded from a preset and then edited here.
+ */
+class MatrixCardSettings extends FormattingSettingsCard {
+    preset = new formattingSettings.ItemDropdown({
+        name: "preset",
+        displayName: "Framework",
+        items: [...presetItems, { value: CUSTOM_PRESET, displayName: "Custom" }],
+        value: presetItems[0]
+    });
+
+    customBase = new formattingSettings.ItemDropdown({
+        name: "customBase",
+        displayName: "Start from",
+        items: presetItems,
+        value: presetItems.find(i => i.value === DEFAULT_PRESET)
+    });
+
+    consequenceLevelCount = new formattingSettings.NumUpDown({
+        name: "consequenceLevelCount",
+        displayName: "Consequence levels",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: MIN_LEVELS },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: MAX_LEVELS }
+        }
+    });
+
+    consequenceLabels = new formattingSettings.TextInput({
+        name: "consequenceLabels",
+        displayName: "Consequence labels",
+        placeholder: "Comma-separated, lowest first",
+        value: ""
+    });
+
+    likelihoodLevelCount = new formattingSettings.NumUpDown({
+        name: "likelihoodLevelCount",
+        displayName: "Likelihood levels",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: MIN_LEVELS },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: MAX_LEVELS }
+        }
+    });
+
+    likelihoodLabels = new formattingSettings.TextInput({
+        name: "likelihoodLabels",
+        displayName: "Likelihood labels",
+        placeholder: "Comma-separated, lowest first",
+        value: ""
+    });
+
+    bandLabels = new formattingSettings.TextInput({
+        name: "bandLabels",
+        displayName: "Band labels",
+        placeholder: "Comma-separated, lowest first",
+        value: ""
+    });
+
+    cellBands = new formattingSettings.TextArea({
+        name: "cellBands",
+        displayName: "Cell bands",
+        description: "One row per likelihood level, highest first, with a band number for each consequence level. Leave blank to band cells by score (see Scoring)",
+        placeholder: "e.g. 2 2 3 4 4",
+        value: ""
+    });
+
+    // preset last copied into the custom fields; never shown in the pane
+    customSeed = new formattingSettings.TextInput({
+        name: "customSeed",
+        displayName: "Custom seed",
+        placeholder: "",
+        value: "",
+        visible: false
+    });
+
+    name: string = "matrix";
+    displayName: string = "Matrix";
+    slices: Array<FormattingSettingsSlice> = [
+        this.preset, this.customBase,
+        this.consequenceLevelCount, this.consequenceLabels, this.likelihoodLevelCount, this.likelihoodLabels,
+        this.bandLabels, this.cellBands, this.customSeed
+    ];
+
+    get presetKey(): string {
+        return String(this.preset.value?.value ?? DEFAULT_PRESET);
+    }
+
+    get customBaseKey(): string {
+        return String(this.customBase.value?.value ?? DEFAULT_PRESET);
+    }
+
+    onPreProcess(): void {
+        const custom = this.presetKey === CUSTOM_PRESET;
+        [
+            this.customBase, this.consequenceLevelCount, this.consequenceLabels,
+            this.likelihoodLevelCount, this.likelihoodLabels, this.bandLabels, this.cellBands
+        ].forEach(slice => slice.visible = custom);
+    }
+}
+
+const scoringItems: powerbi.IEnumMember[] = SCORING_MODELS.map(m => ({ value: m.key, displayName: m.displayName }));
+
+const legendPositionItems: powerbi.IEnumMember[] = [
+    { value: "top", displayName: "Top" },
+    { value: "bottom", displayName: "Bottom" }
+];
+
+const legendClickItems: powerbi.IEnumMember[] = [
+    { value: "select", displayName: "Select risks" },
+    { value: "filter", displayName: "Filter by value" }
+];
+
+/**
+ * Legend Formatting Card
+ * Only drawn when the Legend or Status field is bound.
+ */
+class LegendCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show legend",
+        value: true
+    });
+
+    position = new formattingSettings.ItemDropdown({
+        name: "position",
+        displayName: "Position",
+        items: legendPositionItems,
+        value: legendPositionItems[1]
+    });
+
+    clickAction = new formattingSettings.ItemDropdown({
+        name: "clickAction",
+        displayName: "Click action",
+        description: "Filter applies the clicked values to the rest of the page and replaces a cell filter",
+        items: legendClickItems,
+        value: legendClickItems[0]
     });
 
     fontSize = new formattingSettings.NumUpDown({
         name: "fontSize",
-        displayName: "Text Size",
-        value: 12
+        displayName: "Text size",
+        value: 11,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 8 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 24 }
+        }
+    });
+
+    color = new formattingSettings.ColorPicker({
+        name: "color",
+        displayName: "Text color",
+        value: { value: "#605e5c" }
+    });
+
+    name: string = "legend";
+    displayName: string = "Legend";
+    topLevelSlice = this.show;
+    slices: Array<FormattingSettingsSlice> = [this.position, this.clickAction, this.fontSize, this.color];
+
+    get positionKey(): string {
+        return String(this.position.value?.value ?? "bottom");
+    }
+
+    get clickActionKey(): string {
+        return String(this.clickAction.value?.value ?? "select");
+    }
+}
+
+/**
+ * Legend Colors Formatting Card
+ * One picker per legend value, scoped to that value; the visual fills the slices in on each update.
+ */
+class LegendColorsCardSettings extends FormattingSettingsCard {
+    name: string = "legendColors";
+    displayName: string = "Legend colors";
+    slices: Array<FormattingSettingsSlice> = [];
+}
+
+/**
+ * Small Multiples Formatting Card
+ * Only takes effect when the Small multiples field is bound.
+ */
+class SmallMultiplesCardSettings extends FormattingSettingsCard {
+    showTitles = new formattingSettings.ToggleSwitch({
+        name: "showTitles",
+        displayName: "Panel titles",
+        value: true
+    });
+
+    titleFontSize = new formattingSettings.NumUpDown({
+        name: "titleFontSize",
+        displayName: "Title text size",
+        value: 12,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 8 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 24 }
+        }
+    });
+
+    titleColor = new formattingSettings.ColorPicker({
+        name: "titleColor",
+        displayName: "Title color",
+        value: { value: "#252423" }
+    });
+
+    spacing = new formattingSettings.NumUpDown({
+        name: "spacing",
+        displayName: "Spacing (px)",
+        description: "Gap between panels",
+        value: 16,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    name: string = "smallMultiples";
+    displayName: string = "Small multiples";
+    slices: Array<FormattingSettingsSlice> = [this.showTitles, this.titleFontSize, this.titleColor, this.spacing];
+}
+
+/**
+ * Status Formatting Card
+ * Marker shape per value of the Status field.
+ */
+class StatusCardSettings extends FormattingSettingsCard {
+    shapeMapping = new formattingSettings.TextArea({
+        name: "shapeMapping",
+        displayName: "Shapes",
+        description: "One line per shape as \"shape: value, value\", using circle, square, triangle, diamond, cross, star or wye. Unlisted values take the next free shape",
+        placeholder: "e.g. triangle: Treating, In progress",
+        value: ""
+    });
+
+    name: string = "status";
+    displayName: string = "Status shapes";
+    slices: Array<FormattingSettingsSlice> = [this.shapeMapping];
+}
+
+/**
+ * Scoring Formatting Card
+ * How a cell's score is computed, and the thresholds that band a custom matrix without a cell table.
+ */
+class ScoringCardSettings extends FormattingSettingsCard {
+    model = new formattingSettings.ItemDropdown({
+        name: "model",
+        displayName: "Score",
+        items: scoringItems,
+        value: scoringItems.find(i => i.value === DEFAULT_SCORING)
+    });
+
+    consequenceWeight = new formattingSettings.NumUpDown({
+        name: "consequenceWeight",
+        displayName: "Consequence weight",
+        value: 1,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    likelihoodWeight = new formattingSettings.NumUpDown({
+        name: "likelihoodWeight",
+        displayName: "Likelihood weight",
+        value: 1,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    scoreTable = new formattingSettings.TextArea({
+        name: "scoreTable",
+        displayName: "Cell scores",
+        description: "One row per likelihood level, highest first, with a score for each consequence level. Missing cells score likelihood × consequence",
+        placeholder: "e.g. 5 10 15 20 25",
+        value: ""
+    });
+
+    thresholds = new formattingSettings.TextInput({
+        name: "thresholds",
+        displayName: "Band thresholds",
+        description: "Lowest score of each band after the first. Used by a custom matrix with blank cell bands; blank splits the score range evenly",
+        placeholder: "e.g. 5, 10, 17",
+        value: ""
+    });
+
+    showInLabels = new formattingSettings.ToggleSwitch({
+        name: "showInLabels",
+        displayName: "Show score in labels",
+        value: false
+    });
+
+    name: string = "scoring";
+    displayName: string = "Scoring";
+    slices: Array<FormattingSettingsSlice> = [
+        this.model, this.consequenceWeight, this.likelihoodWeight, this.scoreTable, this.thresholds, this.showInLabels
+    ];
+
+    get modelKey(): string {
+        return String(this.model.value?.value ?? DEFAULT_SCORING);
+    }
+
+    onPreProcess(): void {
+        const additive = this.modelKey === "additive";
+        this.consequenceWeight.visible = additive;
+        this.likelihoodWeight.visible = additive;
+        this.scoreTable.visible = this.modelKey === "lookup";
+    }
+}
+
+/**
+ * Rating Mapping Formatting Card
+ * Maps text labels and option-set codes in the rating fields to levels.
+ */
+class RatingMappingCardSettings extends FormattingSettingsCard {
+    consequenceMapping = new formattingSettings.TextArea({
+        name: "consequenceMapping",
+        displayName: "Consequence values",
+        description: "One line per level as \"level: value, value\". Matching ignores case; axis labels and numbers work without an entry",
+        placeholder: "e.g. 4: Major, Severe, 100000003",
+        value: ""
+    });
+
+    likelihoodMapping = new formattingSettings.TextArea({
+        name: "likelihoodMapping",
+        displayName: "Likelihood values",
+        description: "One line per level as \"level: value, value\". Matching ignores case; axis labels and numbers work without an entry",
+        placeholder: "e.g. 5: Almost Certain, AC, 100000004",
+        value: ""
+    });
+
+    name: string = "ratingMapping";
+    displayName: string = "Rating mapping";
+    slices: Array<FormattingSettingsSlice> = [this.consequenceMapping, this.likelihoodMapping];
+}
+
+/**
+ * Diagnostics Formatting Card
+ * Lists rows that could not be plotted; only drawn while the report is being edited.
+ */
+class DiagnosticsCardSettings extends FormattingSettingsCard {
+    show = new formattingSettings.ToggleSwitch({
+        name: "show",
+        displayName: "Show data diagnostics",
+        description: "Shown in edit mode only, never to report readers",
+        value: true
     });
 
-    name: string = "dataPoint";
-    displayName: string = "Data colors";
-    slices: Array<FormattingSettingsSlice> = [this.defaultColor, this.showAllDataPoints, this.fill, this.fillRule, this.fontSize];
+    name: string = "diagnostics";
+    displayName: string = "Diagnostics";
+    slices: Array<FormattingSettingsSlice> = [this.show];
 }
 
 /**
@@ -77,7 +843,23 @@ class DataPointCardSettings extends FormattingSettingsCard {
 */
 export class VisualFormattingSettingsModel extends FormattingSettingsModel {
     // Create formatting settings model formatting cards
-    dataPointCard = new DataPointCardSettings();
+    titleCard = new TitleCardSettings();
+    subtitleCard = new SubtitleCardSettings();
+    axesCard = new AxesCardSettings();
+    cellsCard = new CellsCardSettings();
+    bandColoursCard = new BandColoursCardSettings();
+    pointsCard = new PointsCardSettings();
+    labelsCard = new LabelsCardSettings();
+    ratingsCard = new RatingsCardSettings();
+    targetsCard = new TargetsCardSettings();
+    matrixCard = new MatrixCardSettings();
+    scoringCard = new ScoringCardSettings();
+    legendCard = new LegendCardSettings();
+    legendColorsCard = new LegendColorsCardSettings();
+    statusCard = new StatusCardSettings();
+    smallMultiplesCard = new SmallMultiplesCardSettings();
+    ratingMappingCard = new RatingMappingCardSettings();
+    diagnosticsCard = new DiagnosticsCardSettings();
 
-    cards = [this.dataPointCard];
+    cards = [this.titleCard, this.subtitleCard, this.axesCard, this.cellsCard, this.bandColoursCard, this.pointsCard, this.labelsCard, this.legendCard, this.legendColorsCard, this.statusCard, this.smallMultiplesCard, this.ratingsCard, this.targetsCard, this.matrixCard, this.scoringCard, this.ratingMappingCard, this.diagnosticsCard];
 }
@@ -0,0 +1,78 @@
+import * as d3 from "d3";
+
+interface MarkerShape {
+    type: d3.SymbolType;
+    area: number; // symbol area per squared radius, so every shape just fits the point's circle
+}
+
+// marker shapes in the order they are handed out to unmapped status values
+export const MARKER_SHAPES: Record<string, MarkerShape> = {
+    circle: { type: d3.symbolCircle, area: Math.PI },
+    square: { type: d3.symbolSquare, area: 2 },
+    triangle: { type: d3.symbolTriangle, area: 1.299 },
+    diamond: { type: d3.symbolDiamond, area: 1.1547 },
+    cross: { type: d3.symbolCross, area: 2 },
+    star: { type: d3.symbolStar, area: 1.1226 },
+    wye: { type: d3.symbolWye, area: 1.7967 }
+};
+
+export const DEFAULT_SHAPE = "circle";
+
+// lower-cased status value → shape key
+export type ShapeMapping = Map<string, string>;
+
+/**
+ * Parses a shape mapping: one line (or ";"-separated entry) per shape, as
+ * "shape: value, value, ...", e.g. "triangle: Treating, In progress".
+ * Values are matched case-insensitively; lines naming an unknown shape are ignored.
+ */
+export function parse_shape_mapping(text: string): ShapeMapping {
+    const mapping: ShapeMapping = new Map();
+
+    for (const entry of (text ?? "").split(/[\n;]+/)) {
+        const separator = entry.indexOf(":");
+        if (separator < 0) continue;
+
+        const shape = entry.slice(0, separator).trim().toLowerCase();
+        if (!(shape in MARKER_SHAPES)) continue;
+
+        entry.slice(separator + 1).split(",")
+            .map(value => value.trim().toLowerCase())
+            .filter(value => value.length > 0)
+            .forEach(value => mapping.set(value, shape));
+    }
+
+    return mapping;
+}
+
+/**
+ * Shape for each status value: the mapped one, otherwise the next shape not already
+ * taken, so unmapped values stay distinct until the shapes run out.
+ */
+export function assign_shapes(values: string[], mapping: ShapeMapping): Map<string, string> {
+    const shapes = new Map<string, string>();
+    const taken = new Set<string>();
+
+    for (const value of values) {
+        const mapped = mapping.get(value.toLowerCase());
+        if (mapped) {
+            shapes.set(value, mapped);
+            taken.add(mapped);
+        }
+    }
+
+    const free = Object.keys(MARKER_SHAPES).filter(shape => !taken.has(shape));
+    let next = 0;
+    for (const value of values) {
+        if (shapes.has(value)) continue;
+        shapes.set(value, free.length > 0 ? free[next++ % free.length] : DEFAULT_SHAPE);
+    }
+
+    return shapes;
+}
+
+// path centred on the origin that fits inside a circle of the given radius
+export function symbol_path(shape: string, radius: number): string {
+    const { type, area } = MARKER_SHAPES[shape] ?? MARKER_SHAPES[DEFAULT_SHAPE];
+    return d3.symbol(type, area * radius * radius)();
+}
@@ -1,12 +1,22 @@
 "use strict";
 
 import powerbi from "powerbi-visuals-api";
-import { FormattingSettingsService } from "powerbi-visuals-utils-formattingmodel";
+import { FormattingSettingsService, formattingSettings } from "powerbi-visuals-utils-formattingmodel";
 import "./../style/visual.less";
 
 import * as d3 from "d3";
-import { create_base_matrix } from "./helper";
-import type { MatrixCell, MatrixData } from "./helper";
+import type { IFilterColumnTarget } from "powerbi-models";
+import { build_band_labels, build_levels, create_base_matrix, create_matrix, DEFAULT_CONSEQUENCE_LEVELS, DEFAULT_LIKELIHOOD_LEVELS, format_band_grid, parse_band_grid, parse_matrix_definition, parse_rating_mapping, resolve_rating } from "./helper";
+import type { CellFills, MatrixCell, MatrixData, RatingMapping } from "./helper";
+import { CUSTOM_PRESET, find_preset, MATRIX_PRESETS } from "./presets";
+import type { MatrixPreset } from "./presets";
+import { cell_geometry, find_layout, panel_grid } from "./layout";
+import type { LayoutStrategy, MarkBox, MarkExtent } from "./layout";
+import { mark_extent, place_labels, truncate_label } from "./labels";
+import { filter_target, filtered_level, filtered_values, FILTER_OBJECT, FILTER_PROPERTY, level_filter, values_filter } from "./filters";
+import { bands_from_scores, format_score, parse_thresholds, score_grid } from "./scoring";
+import type { ScoreGrid } from "./scoring";
+import { assign_shapes, DEFAULT_SHAPE, parse_shape_mapping, symbol_path } from "./shapes";
 
 import VisualConstructorOptions = powerbi.extensibility.visual.VisualConstructorOptions;
 import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
@@ -14,6 +24,7 @@ import IVisual = powerbi.extensibility.visual.IVisual;
 import DataView = powerbi.DataView;
 
 import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import ISandboxExtendedColorPalette = powerbi.extensibility.ISandboxExtendedColorPalette;
 import { valueFormatter } from "powerbi-visuals-utils-formattingutils";
 
 import { VisualFormattingSettingsModel } from "./settings";
@@ -24,17 +35,25 @@ import {
 } from "powerbi-visuals-utils-tooltiputils";
 
 
-// Tunables (adjust to taste)
-const RADIUS_FACTOR = 0.10; // % of min(cellW, cellH) used for circle radius
-const GAP_FACTOR    = 0.3; // >= 0 : how much extra gap beyond diameter; 1.0 means 100% of radius as extra gap
-const INNER_PAD_FR  = 2; // how much inner padding (in radii) to keep away from cell border (both sides)
+type RatingKind = "inherent" | "residual" | "target";
 
 interface Risk {
     category: string;
-    consequenceIdx: number; // 1–5
-    likelihoodIdx: number;  // 1–5
+    consequenceIdx: number; // 1–N (consequence levels), the cell this point is drawn in
+    likelihoodIdx: number;  // 1–M (likelihood levels)
+    rating?: RatingKind;    // which rating this point plots
+    inherent?: [number, number]; // [consequence, likelihood] before controls
+    residual?: [number, number]; // after controls, when the residual roles are bound
+    target?: [number, number];   // rating the owner is aiming for
+    offTarget?: boolean;         // current band is above the target band
+    size?: number;               // Size measure, when bound
+    series?: string;             // Legend value, when bound
+    status?: string;             // Status value, when bound
+    panel?: string;              // Small multiples value, when bound
+    highlighted?: boolean;       // highlighted by a selection in another visual
     rowIndex?: number;
     selectionId?: powerbi.extensibility.ISelectionId;
+    labelKey?: string;           // selection key of the risk label alone, shared by its rows in every panel
     consequenceLabel?: string;
     likelihoodLabel?: string;
     jitterX?: number;
@@ -42,6 +61,87 @@ interface Risk {
     radius?: number;
 }
 
+// one value of the Legend (colour) or Status (shape) field
+interface LegendSeries {
+    role: "legend" | "status";
+    value: string;
+    raw: powerbi.PrimitiveValue;
+    colour: string; // blank for status values, drawn in the legend text colour
+    shape: string;
+    selectionId: powerbi.extensibility.ISelectionId;
+}
+
+// a legend swatch and its label, placed on one of the legend's rows
+interface LegendItem {
+    series: LegendSeries;
+    text: string;
+    x: number;
+    row: number;
+}
+
+// legend values flowed into rows; values past the last row are counted in a "+N more" marker
+interface LegendLayout {
+    items: LegendItem[];
+    rows: number;
+    more: { text: string; x: number; row: number } | null;
+}
+
+const LEGEND_HEIGHT = 24; // per row
+const LEGEND_GAP = 12;
+
+type DropReason = "missing role" | "non-numeric" | "out of range";
+
+// rows left off the matrix for one reason and data role, for the diagnostics overlay
+interface RowIssue {
+    reason: DropReason;
+    role: string;
+    rows: number;
+    samples: string[];
+}
+
+const MAX_ISSUE_SAMPLES = 5;
+
+// the "top" data reduction count in capabilities.json
+const MAX_ROWS = 30000;
+
+// data role names as shown in the field wells
+const ROLE_NAMES: Record<string, string> = {
+    category: "Risk Label",
+    riskConsequenceRating: "Consequence Rating",
+    riskLikelihoodRating: "Likelihood Rating"
+};
+
+// one matrix of the small-multiples grid; a single unnamed panel when the role is not bound
+interface MatrixPanel {
+    key: string;
+    x: number; // origin of the matrix, below the panel title
+    y: number;
+    xAxis: boolean;
+    yAxis: boolean;
+}
+
+// layers of each panel, bottom to top
+const PANEL_LAYERS = ["axes", "cells", "movement-arrows", "targets", "target-warnings", "points", "labels", "count-badges"];
+const MAX_PANEL_TITLE = 40;
+
+// risks whose current rating falls in a matrix cell, for the aggregated view
+interface CellCount {
+    cell: MatrixCell;
+    risks: Risk[];
+}
+
+// marks that did not fit in a cell, drawn as a "+N more" badge in the cell's last slot
+interface CellOverflow {
+    key: string;
+    panel: string;
+    consequenceLabel: string;
+    likelihoodLabel: string;
+    jitterX: number;
+    jitterY: number;
+    radius: number;
+    hidden: Risk[];
+}
+
 export class Visual implements IVisual {
     private target: HTMLElement;
     private formattingSettingsService: FormattingSettingsService;
@@ -51,6 +151,7 @@ export class Visual implements IVisual {
     private tooltipValueCols: powerbi.DataViewValueColumn[] = [];
     
 private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
+    private sizeSource: powerbi.DataViewMetadataColumn | null = null;
 
 
     private _container: HTMLDivElement;
@@ -60,46 +161,130 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
     private margin_left = 60;
     private margin_right = 40;
 
-    private riskConsequenceLevels = ["Insignificant","Minor","Moderate","Major","Catastrophic"];
-    private riskLikelihoodLevels = ["Rare","Unlikely","Possible","Likely","Almost Certain"];
+    private riskConsequenceLevels = [...DEFAULT_CONSEQUENCE_LEVELS];
+    private riskLikelihoodLevels = [...DEFAULT_LIKELIHOOD_LEVELS];
 
     private fallbackColourArray = ["#33CC33", "#FFCC00", "#FFA500", "#FF3333"];
+    private bandLabels = [...MATRIX_PRESETS[0].bandLabels];
+    private bandColours: string[] = [];
+    private scores: ScoreGrid = [];
 
     private risks: Risk[] = [];
     private data: MatrixData;
+    private matrixWarning: string | null = null;
+    private rowLimitWarning: string | null = null;
+    private canvasWarning: string | null = null;
+
+    private rowIssues = new Map<string, RowIssue>();
+    private rowCount = 0;
+    private droppedRows = 0;
+
+    // rating values that matched neither the mapping, the axis labels nor a number, per axis
+    private unmappedRatings = { consequence: new Set<string>(), likelihood: new Set<string>() };
+    private ratingMappings: { consequence: RatingMapping; likelihood: RatingMapping } = { consequence: new Map(), likelihood: new Map() };
+
+    // open "+N more" list, keyed by cell, kept across updates while the cell still overflows
+    private drillCell: string | null = null;
+    private lastOverflow: CellOverflow[] = [];
+    private measureContext: CanvasRenderingContext2D | null = null;
+
+    // keys of the selected selection IDs, kept in step with the selection manager
+    private selectedKeys = new Set<string>();
+    private hasHighlights = false;
+
+    // fields behind the rating roles, and the [consequence, likelihood] cell filtered on them
+    private ratingFields: { consequence: IFilterColumnTarget | null; likelihood: IFilterColumnTarget | null } = { consequence: null, likelihood: null };
+    private filteredCell: [number, number] | null = null;
+    // source values seen for each rating level, for filtering columns that hold labels or codes
+    private ratingSources = { consequence: new Map<number, Set<powerbi.PrimitiveValue>>(), likelihood: new Map<number, Set<powerbi.PrimitiveValue>>() };
+
+    // Legend and Status fields, their values in data order and the values filtered on one of them (by seriesKey)
+    private legendColumn: powerbi.DataViewCategoryColumn | null = null;
+    private legendSeries: LegendSeries[] = [];
+    private statusColumn: powerbi.DataViewCategoryColumn | null = null;
+    private statusSeries: LegendSeries[] = [];
+    private filteredSeries: Set<string> | null = null;
+    private panelColumn: powerbi.DataViewCategoryColumn | null = null;
+    private panelKeys: string[] = [""];
+    private overflowAnchor: (d: CellOverflow) => { left: number; top: number } = () => ({ left: 0, top: 0 });
 
     private host: powerbi.extensibility.visual.IVisualHost;
     private selectionManager: powerbi.extensibility.ISelectionManager;
-    private colourPalette: powerbi.extensibility.IColorPalette | undefined;
+    private colourPalette: ISandboxExtendedColorPalette | undefined;
 
     // persistent SVG layers (G group container)
     private svg!: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+    private defs!: d3.Selection<SVGDefsElement, unknown, null, undefined>;
     private rootG!: d3.Selection<SVGGElement, unknown, null, undefined>;
-    private axesG!: d3.Selection<SVGGElement, unknown, null, undefined>;
-    private cellsG!: d3.Selection<SVGGElement, unknown, null, undefined>;
-    private pointsG!: d3.Selection<SVGGElement, unknown, null, undefined>;
-    private labelsG!: d3.Selection<SVGGElement, unknown, null, undefined>;
+    private panelsG!: d3.Selection<SVGGElement, unknown, null, undefined>;
     private titleG!: d3.Selection<SVGTextElement, unknown, null, undefined>;
     private subtitleG!: d3.Selection<SVGTextElement, unknown, null, undefined>;
     private xAxisTitleG!: d3.Selection<SVGTextElement, unknown, null, undefined>;
     private yAxisTitleG!: d3.Selection<SVGTextElement, unknown, null, undefined>;
+    private warningG!: d3.Selection<SVGTextElement, unknown, null, undefined>;
+    private summaryG!: d3.Selection<SVGTextElement, unknown, null, undefined>;
+    private legendG!: d3.Selection<SVGGElement, unknown, null, undefined>;
+    private drillList!: d3.Selection<HTMLDivElement, unknown, null, undefined>;
+    private dataTable!: d3.Selection<HTMLTableElement, unknown, null, undefined>;
+    private diagnosticsPanel!: d3.Selection<HTMLDivElement, unknown, null, undefined>;
+
+    // cell holding the keyboard tab stop, by "consequence|likelihood"
+    private focusedCell: string | null = null;
 
     private getTooltipInfo(d: Risk): VisualTooltipDataItem[] {
         const base: VisualTooltipDataItem[] = [
             {
                 displayName: "Risk Code (Numeric)", 
                 value: d.category ?? "N/A"
+            }
+        ];
+
+        const ratingItems = (prefix: string, [cIdx, lIdx]: [number, number]): VisualTooltipDataItem[] => [
+            {
+                displayName: `${prefix}Likelihood Rating`,
+                value: this.likelihoodLabelFromIndex(lIdx) ?? String(lIdx)
             },
             {
-                displayName: "Likelihood Rating", 
-                value: d.likelihoodLabel ?? String(d.likelihoodIdx)
+                displayName: `${prefix}Consequence Rating`,
+                value: this.consequenceLabelFromIndex(cIdx) ?? String(cIdx)
             },
             {
-                displayName: "Consequence Rating", 
-                value: d.consequenceLabel ?? String(d.consequenceIdx)
+                displayName: `${prefix}Score`,
+                value: format_score(this.scoreAt([cIdx, lIdx]))
             }
         ];
 
+        const inherent = d.inherent ?? [d.consequenceIdx, d.likelihoodIdx];
+        if (d.residual) {
+            base.push(...ratingItems("Inherent ", inherent), ...ratingItems("Residual ", d.residual));
+        } else {
+            base.push(...ratingItems("", inherent));
+        }
+
+        if (this.legendColumn) {
+            base.push({ displayName: this.legendColumn.source.displayName, value: d.series ?? "" });
+        }
+
+        if (this.statusColumn) {
+            base.push({ displayName: this.statusColumn.source.displayName, value: d.status ?? "" });
+        }
+
+        if (this.panelColumn) {
+            base.push({ displayName: this.panelColumn.source.displayName, value: d.panel ?? "" });
+        }
+
+        if (this.sizeSource) {
+            base.push({
+                displayName: this.sizeSource.displayName,
+                value: d.size == null ? "" : valueFormatter.create({ format: this.sizeSource.format }).format(d.size)
+            });
+        }
+
+        if (d.target) {
+            base.push(...ratingItems("Target ", d.target));
+            base.push({ displayName: "Above Target", value: d.offTarget ? "Yes" : "No" });
+        }
+
         // append additional fields
         /*
         if (this.tooltipValueCols?.length && d.rowIndex != null) {
@@ -134,7 +319,9 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
 
         this.host = options.host;
         this.selectionManager = this.host.createSelectionManager();
-        this.colourPalette = this.host.colorPalette;
+        // bookmarks and cross-page navigation restore a selection without a click
+        this.selectionManager.registerOnSelectCallback(ids => this.syncSelection(ids));
+        this.colourPalette = this.host.colorPalette as ISandboxExtendedColorPalette;
 
         this.tooltipServiceWrapper = createTooltipServiceWrapper(this.host.tooltipService, options.element);
 
@@ -146,15 +333,33 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
 
         this.svg = d3.select(this._container)
             .append("svg")
-            .attr("role", "img")
-            .attr("aria-label", "Risk Matrix");
-
-        // use group layering
+            .attr("role", "group")
+            .attr("aria-label", "Risk Matrix")
+            .on("click", () => {
+                // marks stop propagation, so this is a click on empty space
+                this.drillCell = null;
+                this.renderDrillList(this.lastOverflow);
+                this.selectionManager.clear().then(() => this.syncSelection([]));
+                this.clearFilters();
+            })
+            .on("contextmenu", (event: MouseEvent) => this.showContextMenu(event));
+
+        this.defs = this.svg.append("defs");
+
+        this.defs.append("marker")
+            .attr("id", "movement-arrowhead")
+            .attr("viewBox", "0 0 10 10")
+            .attr("refX", 10)
+            .attr("refY", 5)
+            .attr("markerWidth", 6)
+            .attr("markerHeight", 6)
+            .attr("orient", "auto")
+            .append("path")
+            .attr("d", "M0,0 L10,5 L0,10 z");
+
+        // use group layering; each panel holds its own layers (PANEL_LAYERS)
         this.rootG = this.svg.append("g").attr("class", "chart-root");
-        this.axesG = this.rootG.append("g").attr("class", "axes");
-        this.cellsG = this.rootG.append("g").attr("class", "cells");
-        this.pointsG = this.rootG.append("g").attr("class", "points");
-        this.labelsG = this.rootG.append("g").attr("class", "labels");
+        this.panelsG = this.rootG.append("g").attr("class", "panels");
 
         // add titles
         this.titleG = this.svg.append("text")
@@ -178,6 +383,51 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
             .attr("transform", "rotate(-90)")
             .attr("font-weight", "bold");
 
+        this.warningG = this.svg.append("text")
+            .attr("class", "matrix-warning")
+            .attr("text-anchor", "start");
+
+        this.summaryG = this.svg.append("text")
+            .attr("class", "header-summary")
+            .attr("text-anchor", "end");
+
+        this.legendG = this.svg.append("g")
+            .attr("class", "legend")
+            .attr("role", "group")
+            .attr("aria-label", "Legend");
+
+        this.drillList = d3.select(this._container)
+            .append("div")
+            .attr("class", "drill-list")
+            .style("display", "none")
+            .on("click", event => event.stopPropagation());
+
+        const drillHeader = this.drillList.append("div").attr("class", "drill-list-header");
+        drillHeader.append("span").attr("class", "drill-list-title");
+        drillHeader.append("button")
+            .attr("class", "drill-list-close")
+            .attr("aria-label", "Close")
+            .text("×")
+            .on("click", () => {
+                this.drillCell = null;
+                this.renderDrillList(this.lastOverflow);
+            });
+        this.drillList.append("ul");
+
+        this.diagnosticsPanel = d3.select(this._container)
+            .append("div")
+            .attr("class", "diagnostics")
+            .attr("role", "status")
+            .style("display", "none");
+
+        // the same data as a plain table for screen readers, kept off-screen
+        this.dataTable = d3.select(this._container)
+            .append("table")
+            .attr("class", "sr-only");
+        this.dataTable.append("caption").text("Risk Matrix data");
+        this.dataTable.append("thead").append("tr");
+        this.dataTable.append("tbody");
+
         this.data = create_base_matrix();
     }
 
@@ -189,14 +439,167 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
             options.dataViews[0]
         );
 
+        this.applyMatrixSettings();
+        this.applyMatrixDefinitionRoles(options.dataViews[0]);
+        this.resolveBandColours();
+
         this.extractData(options.dataViews[0]);
+        this.resolveLegendColours();
+        this.reportWarnings();
+        this.restoreFilters(options.jsonFilters);
 
+        this.selectedKeys = new Set(this.selectionManager.getSelectionIds().map(id => this.selectionKey(id)));
         this.renderChart(options);
+        this.renderDiagnostics(options);
+        this.renderDataTable();
+        this.applySelectionStyle();
         
     }
 
+    // resolve the preset (or custom definition) into levels, bands and the cell table
+    private applyMatrixSettings() {
+        const matrix = this.formattingSettings.matrixCard;
+
+        if (matrix.presetKey !== CUSTOM_PRESET) {
+            this.applyMatrixDefinition(find_preset(matrix.presetKey));
+            return;
+        }
+
+        const base = find_preset(matrix.customBaseKey);
+        if (matrix.customSeed.value !== base.key) {
+            // first switch to Custom (or a new starting preset): copy the preset into the editable fields
+            this.seedCustomMatrix(base);
+            this.applyMatrixDefinition(base);
+            return;
+        }
+
+        const consequenceLevels = build_levels(matrix.consequenceLevelCount.value, matrix.consequenceLabels.value, base.consequenceLevels);
+        const likelihoodLevels = build_levels(matrix.likelihoodLevelCount.value, matrix.likelihoodLabels.value, base.likelihoodLevels);
+        const bandLabels = build_band_labels(matrix.bandLabels.value, base.bandLabels);
+        // without a cell table the bands follow the score thresholds
+        const bands = matrix.cellBands.value.trim()
+            ? parse_band_grid(
+                matrix.cellBands.value,
+                consequenceLevels.length,
+                likelihoodLevels.length,
+                bandLabels.length,
+                base.bands
+            )
+            : bands_from_scores(
+                this.scoreGrid(consequenceLevels.length, likelihoodLevels.length),
+                parse_thresholds(this.formattingSettings.scoringCard.thresholds.value),
+                bandLabels.length
+            );
+
+        this.applyMatrixDefinition({ ...base, consequenceLevels, likelihoodLevels, bandLabels, bands });
+    }
+
+    private applyMatrixDefinition(
+        definition: Pick<MatrixPreset, "consequenceLevels" | "likelihoodLevels" | "bandLabels" | "bands">,
+        fills?: CellFills
+    ) {
+        this.riskConsequenceLevels = [...definition.consequenceLevels];
+        this.riskLikelihoodLevels = [...definition.likelihoodLevels];
+        this.bandLabels = [...definition.bandLabels];
+        this.scores = this.scoreGrid(this.riskConsequenceLevels.length, this.riskLikelihoodLevels.length);
+        this.data = create_matrix(this.riskConsequenceLevels, this.riskLikelihoodLevels, definition.bands, this.bandLabels, fills);
+    }
+
+    private scoreGrid(consequenceCount: number, likelihoodCount: number): ScoreGrid {
+        const scoring = this.formattingSettings.scoringCard;
+        return score_grid(consequenceCount, likelihoodCount, {
+            model: scoring.modelKey,
+            consequenceWeight: scoring.consequenceWeight.value,
+            likelihoodWeight: scoring.likelihoodWeight.value,
+            table: scoring.scoreTable.value
+        });
+    }
+
+    private scoreAt([cIdx, lIdx]: [number, number]): number {
+        return this.scores[cIdx - 1]?.[lIdx - 1] ?? cIdx * lIdx;
+    }
+
+    // a bound Matrix Definition table replaces the preset; if it is incomplete the preset stays and we warn
+    private applyMatrixDefinitionRoles(dataView: DataView) {
+        this.matrixWarning = null;
+
+        const categories = dataView.categorical?.categories ?? [];
+        const column = (role: string) => categories.find(c => c.source?.roles?.[role]);
+        const consequenceCol = column("matrixConsequence");
+        const likelihoodCol = column("matrixLikelihood");
+        const bandCol = column("matrixBand");
+        const colourCol = column("matrixColour");
+
+        if (!consequenceCol && !likelihoodCol && !bandCol && !colourCol) return;
+
+        let problem: string;
+        if (!consequenceCol || !likelihoodCol || !bandCol) {
+            problem = "Consequence, Likelihood and Band fields are all required";
+        } else {
+            const rows = consequenceCol.values.map((consequence, idx) => ({
+                consequence,
+                likelihood: likelihoodCol.values[idx],
+                band: bandCol.values[idx],
+                colour: colourCol?.values[idx]
+            }));
+            const result = parse_matrix_definition(rows, this.bandLabels);
+
+            if (result.definition) {
+                const definition = result.definition;
+                this.applyMatrixDefinition({
+                    consequenceLevels: build_levels(definition.consequenceCount, "", this.riskConsequenceLevels),
+                    likelihoodLevels: build_levels(definition.likelihoodCount, "", this.riskLikelihoodLevels),
+                    bandLabels: definition.bandLabels,
+                    bands: definition.bands
+                }, definition.fills);
+                return;
+            }
+            problem = result.problem;
+        }
+
+        this.matrixWarning = `Matrix definition ignored: ${problem}. Showing the built-in matrix.`;
+    }
+
+    // one warning icon for everything that was ignored; the first problem is also shown on the canvas
+    private reportWarnings() {
+        const unmapped = (["consequence", "likelihood"] as const)
+            .filter(axis => this.unmappedRatings[axis].size > 0)
+            .map(axis => {
+                const sample = [...this.unmappedRatings[axis]].slice(0, 5).map(v => `"${v}"`).join(", ");
+                const more = this.unmappedRatings[axis].size > 5 ? ` and ${this.unmappedRatings[axis].size - 5} more` : "";
+                return `Unmapped ${axis} values ${sample}${more}: add them under Rating mapping.`;
+            });
+
+        const warnings = [this.matrixWarning, this.rowLimitWarning, ...unmapped].filter(w => !!w);
+        this.canvasWarning = warnings[0] ?? null;
+        if (warnings.length > 0) {
+            this.host.displayWarningIcon(
+                this.matrixWarning ? "Matrix definition incomplete" : "Some risks were not plotted",
+                warnings.join("\n")
+            );
+        }
+    }
+
+    private seedCustomMatrix(base: MatrixPreset) {
+        this.host.persistProperties({
+            merge: [{
+                objectName: "matrix",
+                selector: null,
+                properties: {
+                    consequenceLevelCount: base.consequenceLevels.length,
+                    consequenceLabels: base.consequenceLevels.join(", "),
+                    likelihoodLevelCount: base.likelihoodLevels.length,
+                    likelihoodLabels: base.likelihoodLevels.join(", "),
+                    bandLabels: base.bandLabels.join(", "),
+                    cellBands: format_band_grid(base.bands),
+                    customSeed: base.key
+                }
+            }]
+        });
+    }
+
     // clamp indices to keep within bounds
-    private clampIndex(v: any, min = 1, max = 5): number | null {
+    private clampIndex(v: any, min: number, max: number): number | null {
         const n = Number(v);
         if (!Number.isFinite(n)) return null;
         const f = Math.floor(n);
@@ -206,6 +609,24 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
 
     private extractData(dataView: DataView) {
 
+        const mappingCard = this.formattingSettings.ratingMappingCard;
+        this.ratingMappings = {
+            consequence: parse_rating_mapping(mappingCard.consequenceMapping.value),
+            likelihood: parse_rating_mapping(mappingCard.likelihoodMapping.value)
+        };
+        this.unmappedRatings = { consequence: new Set(), likelihood: new Set() };
+        this.ratingSources = { consequence: new Map(), likelihood: new Map() };
+        this.rowIssues = new Map();
+        this.rowCount = 0;
+        this.droppedRows = 0;
+        this.legendColumn = null;
+        this.legendSeries = [];
+        this.statusColumn = null;
+        this.statusSeries = [];
+        this.panelColumn = null;
+        this.panelKeys = [""];
+        this.rowLimitWarning = null;
+
         /*
         const table = dataView.table;
         if (!table || !table.rows || !table.columns) {
@@ -216,12 +637,28 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
         */
 
         const catView = dataView.categorical;
-        if(!catView?.categories?.length || !catView.values) return;
+        const values = catView?.values ?? [];
+        const categories = catView?.categories ?? [];
+        const categoryColumn = categories.find(c => c.source?.roles?.["category"]);
+
+        // without a label and both ratings nothing can be plotted
+        const missing = ["category", "riskConsequenceRating", "riskLikelihoodRating"]
+            .filter(role => role === "category" ? !categoryColumn : !values.some(c => c.source.roles?.[role]));
+        if (missing.length > 0) {
+            const rows = new Set(categoryColumn?.values.map((_, idx) => this.selectionKey(this.rowIdentity(categories, idx))));
+            this.rowCount = this.droppedRows = rows.size;
+            missing.forEach(role => this.noteRowIssue("missing role", role));
+            this.risks = [];
+            return;
+        }
 
-        //const categoryColumn = catView.categories[0];
-        const values = catView.values;
-        const categories = catView.categories;
-        const categoryColumn = categories[0];
+        // rows past the reduction limit are cut without notice; the definition fields repeat every risk once per definition row
+        if (dataView.metadata?.segment || categoryColumn.values.length >= MAX_ROWS) {
+            const definitionBound = categories.some(c => c.source?.roles?.["matrixConsequence"] || c.source?.roles?.["matrixLikelihood"]);
+            this.rowLimitWarning = definitionBound
+                ? `Row limit of ${MAX_ROWS} reached: the Matrix Definition fields repeat each risk once per definition row, so some risks were not loaded.`
+                : `Row limit of ${MAX_ROWS} reached: some risks were not loaded.`;
+        }
 
         //this.tooltipValueCols = values.filter(v => v.source?.roles?.["tooltips"]);
         
@@ -233,35 +670,215 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
         //const labelIdx = table.columns.findIndex(c => c.roles["riskLabel"]);
         const consequenceIdx = values.findIndex(c => c.source.roles["riskConsequenceRating"]);
         const likelihoodIdx = values.findIndex(c => c.source.roles["riskLikelihoodRating"]);
+        const residualConsequenceIdx = values.findIndex(c => c.source.roles["residualConsequenceRating"]);
+        const residualLikelihoodIdx = values.findIndex(c => c.source.roles["residualLikelihoodRating"]);
+        this.ratingFields = {
+            consequence: filter_target(values[consequenceIdx]?.source),
+            likelihood: filter_target(values[likelihoodIdx]?.source)
+        };
+
+        const sizeIdx = values.findIndex(c => c.source.roles["size"]);
+        this.sizeSource = values[sizeIdx]?.source ?? null;
+
+        const legendColumn = categories.find(c => c.source?.roles?.["legend"]);
+        this.legendColumn = legendColumn ?? null;
+        this.legendSeries = this.extractLegendSeries(legendColumn, "legend");
+
+        const statusColumn = categories.find(c => c.source?.roles?.["status"]);
+        this.statusColumn = statusColumn ?? null;
+        this.statusSeries = this.extractLegendSeries(statusColumn, "status");
+        const shapes = assign_shapes(
+            this.statusSeries.map(s => s.value),
+            parse_shape_mapping(this.formattingSettings.statusCard.shapeMapping.value)
+        );
+        this.statusSeries.forEach(s => s.shape = shapes.get(s.value) ?? DEFAULT_SHAPE);
+
+        const panelColumn = categories.find(c => c.source?.roles?.["smallMultiples"]);
+        this.panelColumn = panelColumn ?? null;
+
+        const targetConsequenceIdx = values.findIndex(c => c.source.roles["targetConsequenceRating"]);
+        const targetLikelihoodIdx = values.findIndex(c => c.source.roles["targetLikelihoodRating"]);
 
+        // another visual's selection arrives as highlights: a non-null entry marks a highlighted row
+        const highlights = values.find(c => c.highlights)?.highlights;
+        this.hasHighlights = !!highlights;
+
+        const seen = new Set<string>();
         this.risks = categoryColumn.values.map((label, idx) => {
             const consequence = values[consequenceIdx]?.values[idx];
             const likelihood = values[likelihoodIdx]?.values[idx];
 
-            const selectionId = this.host.createSelectionIdBuilder()
-                .withCategory(
-                categoryColumn, idx
-                )
-                .createSelectionId();
+            const selectionId = this.rowIdentity(categories, idx);
+            const labelId = this.host.createSelectionIdBuilder().withCategory(categoryColumn, idx).createSelectionId();
+
+            // matrix definition columns share the query, so each risk repeats once per definition row; only the first is read
+            const key = this.selectionKey(selectionId);
+            if (seen.has(key)) return null;
+            seen.add(key);
 
-            const cIdx = this.clampIndex(consequence);
-            const lIdx = this.clampIndex(likelihood);
+            const cIdx = this.checkedLevel(consequence, "consequence", "riskConsequenceRating");
+            const lIdx = this.checkedLevel(likelihood, "likelihood", "riskLikelihoodRating");
 
-            if (cIdx == null || lIdx == null) return null;
+            if (cIdx == null || lIdx == null) {
+                this.droppedRows++;
+                return null;
+            }
+            this.noteRatingSource("consequence", cIdx, consequence);
+            this.noteRatingSource("likelihood", lIdx, likelihood);
+
+            // a missing or invalid residual rating is treated as unchanged by controls
+            const rcIdx = this.clampIndex(this.ratingLevel(values[residualConsequenceIdx]?.values[idx], "consequence"), 1, this.riskConsequenceLevels.length);
+            const rlIdx = this.clampIndex(this.ratingLevel(values[residualLikelihoodIdx]?.values[idx], "likelihood"), 1, this.riskLikelihoodLevels.length);
+            const hasResidual = residualConsequenceIdx >= 0 || residualLikelihoodIdx >= 0;
+            const residual: [number, number] | undefined = hasResidual ? [rcIdx ?? cIdx, rlIdx ?? lIdx] : undefined;
+
+            // a target needs both ratings; without one the risk is never flagged
+            const tcIdx = this.clampIndex(this.ratingLevel(values[targetConsequenceIdx]?.values[idx], "consequence"), 1, this.riskConsequenceLevels.length);
+            const tlIdx = this.clampIndex(this.ratingLevel(values[targetLikelihoodIdx]?.values[idx], "likelihood"), 1, this.riskLikelihoodLevels.length);
+            const target: [number, number] | undefined = tcIdx != null && tlIdx != null ? [tcIdx, tlIdx] : undefined;
+            const current = residual ?? [cIdx, lIdx];
+            const size = Number(values[sizeIdx]?.values[idx] ?? NaN);
 
             return {
                 category: label != null ? String(label) : "N/A",
                 consequenceIdx: cIdx,
                 likelihoodIdx: lIdx,
+                inherent: [cIdx, lIdx],
+                residual,
+                target,
+                offTarget: !!target && this.bandAt(current) > this.bandAt(target),
+                size: Number.isFinite(size) ? size : undefined,
+                series: legendColumn ? this.seriesName(legendColumn.values[idx]) : undefined,
+                status: statusColumn ? this.seriesName(statusColumn.values[idx]) : undefined,
+                panel: panelColumn ? this.seriesName(panelColumn.values[idx]) : undefined,
+                highlighted: highlights?.[idx] != null,
                 selectionId,
+                labelKey: this.selectionKey(labelId),
                 rowIndex: idx
             } as Risk;
         }).filter(
             (r): r is Risk => !!r
         );
+        this.rowCount = this.risks.length + this.droppedRows;
+
+        // panels in the order their values first appear
+        if (panelColumn && this.risks.length > 0) this.panelKeys = [...new Set(this.risks.map(r => r.panel))];
             
     }
 
+    // a row's identity: its label plus the panel, Legend and Status values, so a label repeated
+    // across them (the same risk in two faculties) stays a separate risk
+    private rowIdentity(categories: powerbi.DataViewCategoryColumn[], idx: number): powerbi.extensibility.ISelectionId {
+        const builder = this.host.createSelectionIdBuilder();
+        ["category", "smallMultiples", "legend", "status"]
+            .map(role => categories.find(c => c.source?.roles?.[role]))
+            .filter(column => !!column)
+            .forEach(column => builder.withCategory(column, idx));
+        return builder.createSelectionId();
+    }
+
+    // one mark of one risk: a label can repeat across panels, Legend and Status values, so the row identity is used
+    private markKey(d: Risk): string {
+        return `${this.selectionKey(d.selectionId!)}-${d.rating}`;
+    }
+
+    private panelRisks(panel: string): Risk[] {
+        return this.risks.filter(r => (r.panel ?? "") === panel);
+    }
+
+    // one mark per rating to draw; with both shown, unmoved risks keep a single (residual) mark
+    private ratingPoints(view: string, risks = this.risks): Risk[] {
+        return risks.flatMap(risk => {
+            const inherent: Risk = { ...risk, rating: "inherent" };
+            if (!risk.residual || view === "inherent") return [inherent];
+
+            const [cIdx, lIdx] = risk.residual;
+            const residual: Risk = { ...risk, consequenceIdx: cIdx, likelihoodIdx: lIdx, rating: "residual" };
+            if (view === "residual" || !this.hasMoved(risk)) return [residual];
+
+            return [inherent, residual];
+        });
+    }
+
+    // each risk counted once, in the cell of the rating being shown (residual when both are)
+    private cellCounts(view: string, risks = this.risks): CellCount[] {
+        const current = this.ratingPoints(view === "inherent" ? "inherent" : "residual", risks);
+        const byCell = d3.group(current, d => `${d.consequenceIdx}-${d.likelihoodIdx}`);
+
+        return this.data
+            .map(cell => {
+                const cIdx = this.riskConsequenceLevels.indexOf(cell.consequence) + 1;
+                const lIdx = this.riskLikelihoodLevels.indexOf(cell.likelihood) + 1;
+                return { cell, risks: byCell.get(`${cIdx}-${lIdx}`) ?? [] };
+            })
+            .filter(c => c.risks.length > 0);
+    }
+
+    // target marks share the cell layout with the risks, so they are placed by calculateJitter too
+    private targetPoints(risks = this.risks): Risk[] {
+        return risks
+            .filter(risk => !!risk.target)
+            .map(risk => ({ ...risk, consequenceIdx: risk.target[0], likelihoodIdx: risk.target[1], rating: "target" as RatingKind }));
+    }
+
+    private bandAt([cIdx, lIdx]: [number, number]): number {
+        const consequence = this.consequenceLabelFromIndex(cIdx);
+        const likelihood = this.likelihoodLabelFromIndex(lIdx);
+        return this.data.find(c => c.consequence === consequence && c.likelihood === likelihood)?.colour ?? 0;
+    }
+
+    private hasMoved(risk: Risk): boolean {
+        return !!risk.residual && (risk.residual[0] !== risk.consequenceIdx || risk.residual[1] !== risk.likelihoodIdx);
+    }
+
+    // level of a main rating, or null with the reason recorded for diagnostics
+    private checkedLevel(value: unknown, axis: "consequence" | "likelihood", role: string): number | null {
+        const level = this.ratingLevel(value, axis);
+        const sample = value == null || String(value).trim() === "" ? "(blank)" : String(value);
+        if (level == null) {
+            // numbers past the last level no longer resolve, but are still reported as out of range
+            const numeric = Number.isFinite(Number(sample));
+            this.noteRowIssue(numeric ? "out of range" : "non-numeric", role, sample);
+            return null;
+        }
+
+        const count = axis === "consequence" ? this.riskConsequenceLevels.length : this.riskLikelihoodLevels.length;
+        const clamped = this.clampIndex(level, 1, count);
+        if (clamped == null) this.noteRowIssue("out of range", role, sample);
+        return clamped;
+    }
+
+    private noteRatingSource(axis: "consequence" | "likelihood", level: number, value: powerbi.PrimitiveValue) {
+        const sources = this.ratingSources[axis];
+        if (!sources.has(level)) sources.set(level, new Set());
+        sources.get(level).add(value);
+    }
+
+    // the source values behind a level when the column holds labels or codes; null when it holds the levels themselves
+    private ratingSourceValues(axis: "consequence" | "likelihood", level: number): Array<string | number | boolean> | null {
+        const sources = this.ratingSources[axis];
+        const mapped = [...sources].some(([l, values]) => [...values].some(v => Number(v) !== l));
+        return mapped ? [...(sources.get(level) ?? [])] as Array<string | number | boolean> : null;
+    }
+
+    private noteRowIssue(reason: DropReason, role: string, sample?: string) {
+        const key = `${reason}|${role}`;
+        const issue = this.rowIssues.get(key) ?? { reason, role, rows: 0, samples: [] };
+        issue.rows++;
+        if (sample != null && issue.samples.length < MAX_ISSUE_SAMPLES && !issue.samples.includes(sample)) issue.samples.push(sample);
+        this.rowIssues.set(key, issue);
+    }
+
+    // text labels and option-set codes → level, noting anything that cannot be resolved
+    private ratingLevel(value: unknown, axis: "consequence" | "likelihood"): number | null {
+        const levels = axis === "consequence" ? this.riskConsequenceLevels : this.riskLikelihoodLevels;
+        const level = resolve_rating(value, this.ratingMappings[axis], levels);
+        if (level == null && value != null && String(value).trim().length > 0) {
+            this.unmappedRatings[axis].add(String(value).trim());
+        }
+        return level;
+    }
+
     private consequenceLabelFromIndex(key: number): string | null {
         return this.riskConsequenceLevels[key - 1] ?? null;
     }
@@ -269,107 +886,153 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
         return this.riskLikelihoodLevels[key - 1] ?? null;
     }
 
-    // map low/med/high/catas to colour palatte
-
-    private findCellColour(idx: number): string {
-        const keys = ["risk-low", "risk-moderate", "risk-high", "risk-extreme"];
-        const chosenKey = keys[idx] ?? `risk-${idx}`;
-        const col = this.colourPalette.getColor(chosenKey);
-        return col?.value
+    // theme sentiment colours (good → neutral → bad) when the theme defines them, else the traffic-light fallback,
+    // spread across however many bands the matrix has
+    private defaultBandColours(count: number): string[] {
+        const palette = this.colourPalette;
+        const stops = palette?.positive && palette?.neutral && palette?.negative
+            ? [palette.positive.value, palette.neutral.value, palette.negative.value]
+            : this.fallbackColourArray;
+        if (count === stops.length) return [...stops];
+
+        const interpolate = d3.piecewise(d3.interpolateRgb, stops);
+        return Array.from({ length: count }, (_, i) => d3.color(interpolate(count > 1 ? i / (count - 1) : 0)).formatHex());
     }
 
-    /**
-     * Best‑fit rectangular grid: picks (cols, rows) that fit usable area and maximize the minimum pitch.
-     */
-    private calculateJitter(
-    x: d3.ScaleBand<string>,
-    y: d3.ScaleBand<string>,
-    _width: number,
-    _height: number
-    ): Risk[] {
-    const groups = d3.group(this.risks, d => `${d.consequenceIdx}-${d.likelihoodIdx}`);
-
-    const cellW = Math.max(1, x.bandwidth());
-    const cellH = Math.max(1, y.bandwidth());
+    private seriesName(value: powerbi.PrimitiveValue): string {
+        return value == null || value === "" ? "(Blank)" : String(value);
+    }
 
-    // Circle sizing
-    const radius = Math.max(4, Math.min(cellW, cellH) * RADIUS_FACTOR);
+    private seriesKey(role: LegendSeries["role"], value: string): string {
+        return `${role}|${value}`;
+    }
 
-    // Desired pitch between centers
-    const gap    = Math.max(2, radius * GAP_FACTOR);
-    const pitchX = (radius * 2) + gap;
-    const pitchY = (radius * 2) + gap;
+    private shapeOf(d: Risk): string {
+        return this.statusSeries.find(s => s.value === d.status)?.shape ?? DEFAULT_SHAPE;
+    }
 
-    // Inner padding, measured in radii, converted to px
-    const innerPadX = Math.max(2, radius * INNER_PAD_FR);
-    const innerPadY = Math.max(2, radius * INNER_PAD_FR);
+    // each Legend or Status value once, with the identity (and colour override) of its first row
+    private extractLegendSeries(column: powerbi.DataViewCategoryColumn | undefined, role: LegendSeries["role"]): LegendSeries[] {
+        if (!column) return [];
+
+        const series = new Map<string, LegendSeries>();
+        column.values.forEach((raw, idx) => {
+            const value = this.seriesName(raw);
+            if (series.has(value)) return;
+
+            const fill = role === "legend" ? column.objects?.[idx]?.legendColors?.fill as powerbi.Fill | undefined : undefined;
+            series.set(value, {
+                role,
+                value,
+                raw,
+                colour: fill?.solid?.color ?? "",
+                shape: DEFAULT_SHAPE,
+                selectionId: this.host.createSelectionIdBuilder().withCategory(column, idx).createSelectionId()
+            });
+        });
+        return [...series.values()];
+    }
 
-    // Usable placement area
-    const usableW = Math.max(0, cellW - innerPadX * 2);
-    const usableH = Math.max(0, cellH - innerPadY * 2);
+    // palette colours for values without an override, and one picker per value scoped to it
+    private resolveLegendColours() {
+        this.legendSeries.forEach(s => {
+            s.colour ||= this.colourPalette.getColor(s.value).value;
+        });
 
-    function bestGrid(n: number) {
-        // Upper bounds on how many we can fit at desired pitch
-        const maxCols = Math.max(1, Math.floor(usableW / pitchX));
-        const maxRows = Math.max(1, Math.floor(usableH / pitchY));
-        const maxCap  = maxCols * maxRows;
+        const card = this.formattingSettings.legendColorsCard;
+        card.visible = this.legendSeries.length > 0;
+        card.slices = this.legendSeries.map(s => new formattingSettings.ColorPicker({
+            name: "fill",
+            displayName: s.value,
+            value: { value: s.colour },
+            selector: (s.selectionId as powerbi.visuals.ISelectionId).getSelector()
+        }));
+    }
 
-        // If desired pitch is too big, we’ll still try to fit as many as possible by relaxing pitch a bit.
-        // We’ll search feasible (cols,rows) where cols*rows >= n but cols<=ceil(usableW/(2r)), rows<=ceil(usableH/(2r))
-        const hardCols = Math.max(1, Math.floor(usableW / (radius * 2))); // the absolute max if gap→0
-        const hardRows = Math.max(1, Math.floor(usableH / (radius * 2)));
+    // per-band colours from the pane, falling back to the theme defaults; also labels the band pickers
+    private resolveBandColours() {
+        const defaults = this.defaultBandColours(this.bandLabels.length);
+        const pickers = this.formattingSettings.bandColoursCard.bandColours;
 
-        // Search candidates around sqrt(n)
-        const candidates: Array<{cols:number; rows:number; pitch:number}> = [];
-        const maxColsTry = Math.max(1, Math.min(hardCols, Math.ceil(Math.sqrt(n)) + 6));
-        for (let cols = 1; cols <= maxColsTry; cols++) {
-        const rows = Math.max(1, Math.ceil(n / cols));
-        if (rows > hardRows) continue;
+        this.bandColours = defaults.map((colour, idx) => pickers[idx]?.value?.value || colour);
 
-        // Given cols/rows, compute the actual pitch we can afford to center the grid inside usable area
-        // We want the min pitch across X/Y to be as large as possible (maximize separation).
-        const actualPitchX = cols > 1 ? (usableW / (cols - 1)) : usableW; // single col → all at cx0
-        const actualPitchY = rows > 1 ? (usableH / (rows - 1)) : usableH;
+        pickers.forEach((picker, idx) => {
+            picker.visible = idx < this.bandLabels.length;
+            picker.displayName = this.bandLabels[idx] ?? `Band ${idx + 1}`;
+            picker.value = { value: this.bandColours[idx] ?? "" };
+        });
+    }
 
-        // The pitch can't be less than 2*radius (or dots overlap). Skip impossible grids.
-        if (actualPitchX < 2 * radius || actualPitchY < 2 * radius) continue;
+    private findCellColour(idx: number): string {
+        return this.bandColours[idx] ?? this.fallbackColourArray[idx] ?? "#cccccc";
+    }
 
-        const minPitch = Math.min(actualPitchX, actualPitchY);
-        candidates.push({ cols, rows, pitch: minPitch });
-        }
+    // high-contrast cells: outlined, with a distinct hatch per band instead of colour
+    private renderBandPatterns(foreground: string, background: string) {
+        const hatches = [
+            "M0,8 L8,0",
+            "M0,8 L8,0 M0,0 L8,8",
+            "M0,4 L8,4 M4,0 L4,8",
+            "M0,8 L8,0 M0,0 L8,8 M0,4 L8,4 M4,0 L4,8"
+        ];
+        const bands = d3.range(1, Math.max(1, this.bandLabels.length));
+
+        const patterns = this.defs
+            .selectAll<SVGPatternElement, number>("pattern.band-pattern")
+            .data(bands, d => String(d))
+            .join(enter => {
+                const pattern = enter.append("pattern")
+                    .attr("class", "band-pattern")
+                    .attr("id", d => `band-pattern-${d}`)
+                    .attr("patternUnits", "userSpaceOnUse")
+                    .attr("width", 8)
+                    .attr("height", 8);
+                pattern.append("rect").attr("width", 8).attr("height", 8);
+                pattern.append("path");
+                return pattern;
+            });
 
-        if (candidates.length === 0) {
-        // Fallback: just pile them at center; later code will place them all at (0,0)
-        return { cols: 1, rows: Math.max(1, n), pitchX: 2 * radius, pitchY: 2 * radius };
-        }
+        patterns.select("rect").attr("fill", background);
+        patterns.select("path")
+            .attr("d", d => hatches[(d - 1) % hatches.length])
+            .attr("stroke", foreground)
+            .attr("stroke-width", d => d > hatches.length ? 2 : 1);
+    }
 
-        // Pick the grid that maximizes the minimum pitch
-        candidates.sort((a, b) => b.pitch - a.pitch);
-        const best = candidates[0];
+    // marker radius from the Size measure, scaled so area follows the value; null when Size is not bound
+    private sizeScale(): ((d: Risk) => number) | null {
+        if (!this.sizeSource) return null;
 
-        // Derive effective pitch (balanced) from usableW/H and best cols/rows
-        const effPitchX = best.cols > 1 ? (usableW / (best.cols - 1)) : usableW;
-        const effPitchY = best.rows > 1 ? (usableH / (best.rows - 1)) : usableH;
+        const { minRadius, maxRadius } = this.formattingSettings.pointsCard;
+        const scale = d3.scaleSqrt()
+            .domain([0, d3.max(this.risks, (r: Risk) => r.size) || 1])
+            .range([minRadius.value, Math.max(minRadius.value, maxRadius.value)])
+            .clamp(true);
 
-        return { cols: best.cols, rows: best.rows, pitchX: effPitchX, pitchY: effPitchY };
+        return (d: Risk) => scale(d.size ?? 0);
     }
 
-    function positionsFor(n: number, cols: number, rows: number, effPitchX: number, effPitchY: number): [number, number][] {
-        const gridW = (cols - 1) * effPitchX;
-        const gridH = (rows - 1) * effPitchY;
-        const cx0   = -gridW / 2;
-        const cy0   = -gridH / 2;
+    /**
+     * Places the marks of each cell with the chosen layout strategy.
+     * A cell holding more marks than fit without overlap keeps its last slot for a "+N more" badge.
+     */
+    private calculateJitter(
+    risks: Risk[],
+    layout: LayoutStrategy,
+    x: d3.ScaleBand<string>,
+    y: d3.ScaleBand<string>,
+    markBox?: (d: Risk) => MarkBox,
+    radiusOf?: (d: Risk) => number
+    ): { placed: Risk[]; overflow: CellOverflow[] } {
+    const groups = d3.group(risks, d => `${d.consequenceIdx}-${d.likelihoodIdx}`);
 
-        const pos: [number, number][] = [];
-        for (let i = 0; i < n; i++) {
-        const r = Math.floor(i / cols) % rows;
-        const c = i % cols;
-        pos.push([cx0 + c * effPitchX, cy0 + r * effPitchY]);
-        }
-        return pos;
-    }
+    const cellW = Math.max(1, x.bandwidth());
+    const cellH = Math.max(1, y.bandwidth());
+    // a sized marker never grows past what fits in its cell
+    const fitRadius = Math.max(2, Math.min(cellW, cellH) / 2 - 2);
 
     const placed: Risk[] = [];
+    const overflow: CellOverflow[] = [];
 
     for (const [key, group] of groups.entries()) {
         const [cIdxStr, lIdxStr] = key.split("-");
@@ -379,24 +1042,53 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
         const lLabel = this.likelihoodLabelFromIndex(lIdx);
         if (!cLabel || !lLabel) continue;
 
-        const n = group.length;
-        const best = bestGrid(n);
-        const pos = positionsFor(n, best.cols, best.rows, best.pitchX, best.pitchY);
+        // target marks are hidden before risk marks
+        const ordered = [...group.filter(d => d.rating !== "target"), ...group.filter(d => d.rating === "target")];
+
+        // with sized markers the packing pitch follows the largest one in the cell
+        const radii = radiusOf ? ordered.map(d => Math.min(radiusOf(d), fitRadius)) : null;
+        const geometry = cell_geometry(cellW, cellH, radii ? Math.max(...radii) : undefined);
+        const { radius, capacity } = geometry;
+        const radiusAt = (i: number) => radii?.[i] ?? radius;
+
+        const overflowing = ordered.length > capacity;
+        const n = overflowing ? capacity - 1 : ordered.length;
+        const ids = ordered.slice(0, n).map(d => this.markKey(d));
+        if (overflowing) ids.push(`${key}-overflow`);
+        const extents = markBox || radii
+            ? ordered.slice(0, n).map((d, i): MarkExtent => mark_extent(radiusAt(i), markBox?.(d) ?? [0, 0]))
+            : undefined;
+        const pos = layout.positions(ids, geometry, extents);
+        const slots = ids.length;
+
+        if (overflowing) {
+            const panel = group[0].panel ?? "";
+            overflow.push({
+                key: `${panel}|${key}`,
+                panel,
+                consequenceLabel: cLabel,
+                likelihoodLabel: lLabel,
+                jitterX: pos[slots - 1][0],
+                jitterY: pos[slots - 1][1],
+                radius,
+                hidden: ordered.slice(n)
+            });
+        }
 
         for (let i = 0; i < n; i++) {
-        const g = group[i];
+        const g = ordered[i];
         placed.push({
             ...g,
             consequenceLabel: cLabel,
             likelihoodLabel: lLabel,
             jitterX: pos[i][0],
             jitterY: pos[i][1],
-            radius
+            radius: radiusAt(i)
         });
         }
     }
 
-    return placed;
+    return { placed, overflow };
     }
 
 
@@ -406,130 +1098,425 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
         const fullWidth = Math.max(0, vport.width);
         const fullHeight = Math.max(0, vport.height);
 
+        // the legend takes as many rows as its values need above or below the matrix, up to a third of the height
+        const legendCard = this.formattingSettings.legendCard;
+        const legend = this.layoutLegend(legendCard.show.value, fullWidth, Math.max(1, Math.floor(fullHeight / 3 / LEGEND_HEIGHT)));
+        const legendSpace = legend.rows * LEGEND_HEIGHT;
+        const legendAtTop = legendCard.positionKey === "top";
+        const top = this.margin_top + (legendAtTop ? legendSpace : 0);
+
         const width = Math.max(0, fullWidth - (this.margin_left + this.margin_right));
-        const height = Math.max(0, fullHeight - (this.margin_top + this.margin_bottom));
+        const height = Math.max(0, fullHeight - (this.margin_top + this.margin_bottom) - legendSpace);
 
         this.svg
             .attr("width", fullWidth)
             .attr("height", fullHeight)
             .attr("viewBox", `0 0 ${fullWidth} ${fullHeight}`);
 
-        this.rootG.attr("transform", `translate(${this.margin_left}, ${this.margin_top})`);
+        this.rootG.attr("transform", `translate(${this.margin_left}, ${top})`);
+
+        const { titleCard, subtitleCard, axesCard, cellsCard, pointsCard, ratingsCard, targetsCard } = this.formattingSettings;
 
-        const titleText = (this.formattingSettings as any)?.title?.text?.value ?? "Risk Matrix";
-        const subtitleText = "Interactive Heat Map of Risks in manageCompliance";
-        const titleFontSize = (this.formattingSettings as any)?.title?.fontSize?.value ?? 20;
-        const subtitleFontSize = 12;
+        // high-contrast mode draws with the theme's foreground/background only
+        const highContrast = !!this.colourPalette?.isHighContrast;
+        const foreground = this.colourPalette?.foreground?.value;
+        const background = this.colourPalette?.background?.value;
+
+        const titleY = Math.max(20, this.margin_top * 0.6);
 
         this.titleG
-            .text(titleText)
+            .text(titleCard.text.value)
             .attr("x", fullWidth / 2)
-            .attr("y", Math.max(20, this.margin_top * 0.6))
-            .attr("font-size", `${titleFontSize}px`);
+            .attr("y", titleY)
+            .attr("fill", highContrast ? foreground : titleCard.fontColor.value.value)
+            .style("display", titleCard.show.value ? null : "none")
+            .call(sel => this.applyFont(sel, titleCard.font));
 
         this.subtitleG
-            .text(subtitleText)
+            .text(subtitleCard.text.value)
             .attr("x", fullWidth / 2)
-            .attr("y", Math.max(20, this.margin_top * 0.6) + 15)
-            .attr("font-size", `${subtitleFontSize}px`);
+            .attr("y", titleCard.show.value ? titleY + 15 : titleY)
+            .attr("fill", highContrast ? foreground : subtitleCard.fontColor.value.value)
+            .style("display", subtitleCard.show.value ? null : "none")
+            .call(sel => this.applyFont(sel, subtitleCard.font));
+
+        const axisColour = highContrast ? foreground : axesCard.fontColor.value.value;
 
-        const xAxisTitle = "Consequence";
-        const yAxisTitle = "Likelihood";
+        this.renderLegend(
+            legend,
+            legendAtTop ? this.margin_top : fullHeight - legendSpace,
+            highContrast ? foreground : null
+        );
 
         this.xAxisTitleG
-            .text(xAxisTitle)
+            .text(axesCard.xTitle.value)
             .attr("x", this.margin_left + width / 2)
-            .attr("y", fullHeight - Math.max(10, this.margin_bottom * 0.3))
-            .attr("font-size", "12px");
+            .attr("y", fullHeight - Math.max(10, this.margin_bottom * 0.3) - (legendAtTop ? 0 : legendSpace))
+            .attr("fill", axisColour)
+            .call(sel => this.applyFont(sel, axesCard.titleFont));
 
         this.yAxisTitleG
-            .text(yAxisTitle)
-            .attr("x", -(this.margin_top + height / 2))
+            .text(axesCard.yTitle.value)
+            .attr("x", -(top + height / 2))
             .attr("y", Math.max(16, this.margin_left * 0.4))
-            .attr("font-size", "12px");
+            .attr("fill", axisColour)
+            .call(sel => this.applyFont(sel, axesCard.titleFont));
+
+        this.warningG
+            .text(this.canvasWarning ?? "")
+            .attr("x", 4)
+            .attr("y", 12)
+            .attr("font-size", "11px")
+            .attr("fill", highContrast ? foreground : "#b45309");
+
+        const withTargets = this.risks.filter(r => r.target).length;
+        const offTarget = this.risks.filter(r => r.offTarget).length;
+
+        this.summaryG
+            .text(withTargets > 0 ? `${offTarget} of ${withTargets} risks above target` : "")
+            .attr("x", fullWidth - 4)
+            .attr("y", 12)
+            .attr("font-size", "11px")
+            .attr("fill", highContrast ? foreground : offTarget > 0 ? targetsCard.warningColor.value.value : "#605e5c")
+            .style("display", targetsCard.showSummary.value ? null : "none");
+
+        // one matrix per Small multiples value, all drawn to the same scales
+        const multiplesCard = this.formattingSettings.smallMultiplesCard;
+        const multiples = !!this.panelColumn;
+        const header = multiples && multiplesCard.showTitles.value ? multiplesCard.titleFontSize.value + 8 : 0;
+        const gap = multiples ? multiplesCard.spacing.value : 0;
+        const grid = panel_grid(this.panelKeys.length, width, height, gap, header);
+
+        const cellPadding = cellsCard.padding.value / 100;
 
         const x = d3.scaleBand<string>()
             .domain(this.riskConsequenceLevels)
-            .range([0, width])
-            .padding(0.03);
+            .range([0, grid.panelWidth])
+            .padding(cellPadding);
 
         const y = d3.scaleBand<string>()
             .domain(this.riskLikelihoodLevels)
-            .range([height, 0])
-            .padding(0.03);
+            .range([Math.max(0, grid.panelHeight - header), 0])
+            .padding(cellPadding);
+
+        if (highContrast) this.renderBandPatterns(foreground, background);
+
+        // axes along the left column and under the last panel of each column
+        const panelData: MatrixPanel[] = this.panelKeys.map((key, i) => ({
+            key,
+            x: (i % grid.cols) * (grid.panelWidth + gap),
+            y: Math.floor(i / grid.cols) * (grid.panelHeight + gap) + header,
+            xAxis: i + grid.cols >= this.panelKeys.length,
+            yAxis: i % grid.cols === 0
+        }));
+
+        const panels = this.panelsG
+            .selectAll<SVGGElement, MatrixPanel>("g.panel")
+            .data(panelData, d => d.key)
+            .join(enter => {
+                const panel = enter.append("g")
+                    .attr("class", "panel")
+                    .attr("role", "group");
+                panel.append("text")
+                    .attr("class", "panel-title")
+                    .attr("text-anchor", "middle")
+                    .attr("dominant-baseline", "central")
+                    .attr("font-weight", "bold");
+                PANEL_LAYERS.forEach(name => panel.append("g").attr("class", name));
+                return panel;
+            })
+            .attr("transform", d => `translate(${d.x}, ${d.y})`)
+            .attr("aria-label", d => multiples ? d.key : null);
+
+        panels.select<SVGTextElement>("text.panel-title")
+            .text(d => truncate_label(d.key, MAX_PANEL_TITLE))
+            .attr("x", grid.panelWidth / 2)
+            .attr("y", -header / 2)
+            .attr("fill", highContrast ? foreground : multiplesCard.titleColor.value.value)
+            .style("display", header > 0 ? null : "none")
+            .style("font-family", axesCard.titleFont.fontFamily.value)
+            .style("font-size", `${multiplesCard.titleFontSize.value}px`);
+
+        // the densest cell of any panel decides, so every panel draws in the same mode
+        const view = ratingsCard.viewKey;
+        const densest = d3.max(this.panelKeys, key => d3.max(this.cellCounts(view, this.panelRisks(key)), c => c.risks.length)) ?? 0;
+        const displayMode = pointsCard.displayModeKey;
+        const aggregate = displayMode === "counts" || (displayMode === "auto" && densest > pointsCard.densityThreshold.value);
+
+        const overflow: CellOverflow[] = [];
+        panels.each((panel, i, nodes) => {
+            overflow.push(...this.renderPanel(d3.select(nodes[i]), panel, x, y, aggregate));
+        });
 
-        this.axesG.selectAll("*").remove();
+        this.updateCellTabStops();
 
-        this.axesG.append("g")
-            .attr("class", "y-axis")
-            .call(d3.axisLeft(y));
-        
-        this.axesG.selectAll(".tick text")
-            .attr("dy", null)
-            .attr("transform", "translate(-15, -6) rotate(-90)")
-            .style("text-anchor", "middle")
-            .attr("alignment-baseline", "middle")
-            .style("dominant-baseline", "central");
-
-        this.axesG.append("g")
-            .attr("class", "x-axis")
-            .attr("transform", `translate(0, ${height})`)
-            .call(d3.axisBottom(x));
-
-        const cells = this.cellsG
+        // placed relative to the container, which hosts the list
+        const origins = new Map(panelData.map(p => [p.key, p]));
+        this.overflowAnchor = (d: CellOverflow) => ({
+            left: this.margin_left + origins.get(d.panel).x + x(d.consequenceLabel)! + x.bandwidth(),
+            top: top + origins.get(d.panel).y + y(d.likelihoodLabel)!
+        });
+        this.lastOverflow = overflow;
+        this.renderDrillList(overflow);
+    }
+
+    // one matrix of the grid: its axes, cells and the marks of the panel's risks; returns its "+N more" badges
+    private renderPanel(
+        layer: d3.Selection<SVGGElement, unknown, null, undefined>,
+        panel: MatrixPanel,
+        x: d3.ScaleBand<string>,
+        y: d3.ScaleBand<string>,
+        aggregate: boolean
+    ): CellOverflow[] {
+        const { axesCard, cellsCard, pointsCard, labelsCard, ratingsCard, targetsCard } = this.formattingSettings;
+        const highContrast = !!this.colourPalette?.isHighContrast;
+        const foreground = this.colourPalette?.foreground?.value;
+        const background = this.colourPalette?.background?.value;
+        const axisColour = highContrast ? foreground : axesCard.fontColor.value.value;
+        const risks = this.panelRisks(panel.key);
+
+        const axesG = layer.select<SVGGElement>("g.axes");
+        axesG.selectAll("*").remove();
+
+        if (panel.yAxis) {
+            axesG.append("g")
+                .attr("class", "y-axis")
+                .call(d3.axisLeft(y));
+
+            axesG.selectAll(".tick text")
+                .attr("dy", null)
+                .attr("transform", "translate(-15, -6) rotate(-90)")
+                .style("text-anchor", "middle")
+                .attr("alignment-baseline", "middle")
+                .style("dominant-baseline", "central");
+        }
+
+        if (panel.xAxis) {
+            axesG.append("g")
+                .attr("class", "x-axis")
+                .attr("transform", `translate(0, ${y.range()[0]})`)
+                .call(d3.axisBottom(x));
+        }
+
+        axesG.selectAll<SVGGElement, unknown>(".x-axis, .y-axis")
+            .attr("font-size", axesCard.labelFontSize.value)
+            .style("color", axisColour);
+
+        const cellFill = (d: MatrixCell) => {
+            if (highContrast) return d.colour > 0 ? `url(#band-pattern-${d.colour})` : background;
+            return d.fill ?? this.findCellColour(d.colour);
+        };
+
+        const cells = layer.select<SVGGElement>("g.cells")
             .selectAll<SVGRectElement, MatrixCell>("rect.cell")
             .data(this.data, (d: any) => `${d.consequence}|${d.likelihood}`);
 
         cells.join(
             enter => enter.append("rect")
                 .attr("class", "cell")
+                .style("cursor", "pointer")
+                .on("click", (event, d) => {
+                    this.selectCell(d, event.ctrlKey || event.metaKey, panel.key);
+                    event.stopPropagation();
+                })
+                .on("contextmenu", (event, d) => {
+                    // a cell has no identity of its own; a lone risk stands in for it, otherwise the menu covers the visual
+                    const risks = this.cellRisks(d, panel.key);
+                    this.showContextMenu(event, risks.length === 1 ? risks[0].selectionId : undefined);
+                })
+                .on("keydown", (event, d) => this.onCellKeyDown(event, d, panel.key))
+                .on("focus", (_event, d) => this.focusedCell = this.cellKey(d, panel.key))
+                .attr("role", "button")
                 .attr("x", d => x(d.consequence)!)
                 .attr("y", d => y(d.likelihood)!)
                 .attr("width", x.bandwidth())
                 .attr("height", y.bandwidth())
-                .attr("fill", d => this.fallbackColourArray[d.colour])
-                .attr("stroke", "#eeeeee")
-                .attr("stroke-width", 1),
+                .attr("fill", cellFill),
             update => update
                 .attr("x", d => x(d.consequence)!)
                 .attr("y", d => y(d.likelihood)!)
                 .attr("width", x.bandwidth())
-                .attr("height", y.bandwidth()),
+                .attr("height", y.bandwidth())
+                .attr("fill", cellFill),
             exit => exit.remove()
-            );
+            )
+            .attr("stroke", highContrast ? foreground : cellsCard.borderColor.value.value)
+            .attr("stroke-width", highContrast ? Math.max(2, cellsCard.borderWidth.value) : cellsCard.borderWidth.value)
+            .attr("aria-label", d => {
+                const count = this.cellRisks(d, panel.key).length;
+                const score = this.scoreAt([this.riskConsequenceLevels.indexOf(d.consequence) + 1, this.riskLikelihoodLevels.indexOf(d.likelihood) + 1]);
+                return `${d.consequence} consequence, ${d.likelihood} likelihood: ${d.risk}, score ${format_score(score)}, ${count} ${count === 1 ? "risk" : "risks"}`;
+            });
 
-        const jitteredRisks = this.calculateJitter(x, y, width, height);
+        const view = ratingsCard.viewKey;
+        const showTargets = targetsCard.show.value;
+        const cellCounts = this.cellCounts(view, risks);
 
-        const pointColour = (this.formattingSettings as any)?.points?.color?.value ?? "#17457a";
+        const nominalFontSize = Math.min(x.bandwidth(), y.bandwidth()) * 0.28;
+        const labelFontSize = labelsCard.autoSize.value
+            ? Math.max(10, Math.min(14, Math.floor(nominalFontSize)))
+            : labelsCard.font.fontSize.value;
+        const labelColor = highContrast ? foreground : labelsCard.color.value.value;
+        const showLabels = labelsCard.show.value;
+        // target marks carry no label, so only their circle is an obstacle
+        const markBox = (d: Risk): MarkBox => d.rating === "target"
+            ? [0, 0]
+            : this.measureLabel(this.labelText(d), labelFontSize, labelsCard.font);
+
+        // in count mode the badges replace every per-risk mark
+        const { placed, overflow } = aggregate ? { placed: [], overflow: [] } : this.calculateJitter(
+            [...this.ratingPoints(view, risks), ...(showTargets ? this.targetPoints(risks) : [])],
+            find_layout(pointsCard.layoutKey),
+            x, y,
+            showLabels ? markBox : undefined,
+            this.sizeScale()
+        );
+        const jitteredRisks = placed.filter(d => d.rating !== "target");
+        const targetMarks = placed.filter(d => d.rating === "target");
+
+        const riskKey = (d: Risk) => `${this.markKey(d)}-${d.consequenceIdx}-${d.likelihoodIdx}`;
+        const pointX = (d: Pick<Risk, "consequenceLabel" | "jitterX">) => x(d.consequenceLabel!)! + x.bandwidth() / 2 + (d.jitterX ?? 0);
+        const pointY = (d: Pick<Risk, "likelihoodLabel" | "jitterY">) => y(d.likelihoodLabel!)! + y.bandwidth() / 2 + (d.jitterY ?? 0);
+
+        const pointColour = highContrast ? background : pointsCard.fill.value.value;
+        const seriesColours = new Map(this.legendSeries.map(s => [s.value, s.colour]));
+        const riskColour = (d: Risk) => highContrast ? background : seriesColours.get(d.series) ?? pointColour;
+        const pointOpacity = pointsCard.opacity.value / 100;
+        const showingBoth = view === "both";
+        // the inherent mark is a faded, dashed "before" position when both ratings are drawn
+        const isGhost = (d: Risk) => showingBoth && d.rating === "inherent";
+
+        // arrows run from the inherent to the residual mark, stopping at the edge of each circle
+        const movements = showingBoth
+            ? jitteredRisks
+                .filter(d => d.rating === "residual" && this.hasMoved(d))
+                .map(to => ({ to, from: jitteredRisks.find(d => d.rating === "inherent" && d.rowIndex === to.rowIndex) }))
+                .filter(m => !!m.from)
+            : [];
+
+        const arrowColour = highContrast ? foreground : ratingsCard.arrowColor.value.value;
+        this.defs.select("#movement-arrowhead path").attr("fill", arrowColour);
+
+        const trimmed = (m: { from: Risk; to: Risk }) => {
+            const x1 = pointX(m.from), y1 = pointY(m.from), x2 = pointX(m.to), y2 = pointY(m.to);
+            const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+            const startGap = m.from.radius! / length;
+            const endGap = m.to.radius! / length;
+            return {
+                x1: x1 + (x2 - x1) * startGap,
+                y1: y1 + (y2 - y1) * startGap,
+                x2: x2 - (x2 - x1) * endGap,
+                y2: y2 - (y2 - y1) * endGap
+            };
+        };
+
+        layer.select<SVGGElement>("g.movement-arrows")
+            .selectAll<SVGLineElement, { from: Risk; to: Risk }>("line.movement-arrow")
+            .data(movements, (m: any) => this.markKey(m.to))
+            .join("line")
+            .attr("class", "movement-arrow")
+            .attr("x1", m => trimmed(m).x1)
+            .attr("y1", m => trimmed(m).y1)
+            .attr("x2", m => trimmed(m).x2)
+            .attr("y2", m => trimmed(m).y2)
+            .attr("stroke", arrowColour)
+            .attr("stroke-width", 2)
+            .attr("marker-end", "url(#movement-arrowhead)");
+
+        // the current point is the front-most mark of each risk (residual when it is drawn)
+        const currentMark = new Map<number, Risk>();
+        jitteredRisks.forEach(d => currentMark.set(d.rowIndex, d));
+
+        const targetsG = layer.select<SVGGElement>("g.targets");
+        const targetColour = highContrast ? foreground : targetsCard.markerColor.value.value;
+        const targetLinks = targetMarks
+            .map(to => ({ from: currentMark.get(to.rowIndex), to }))
+            .filter(m => !!m.from && (pointX(m.from) !== pointX(m.to) || pointY(m.from) !== pointY(m.to)));
+
+        targetsG
+            .selectAll<SVGLineElement, { from: Risk; to: Risk }>("line.target-link")
+            .data(targetLinks, (m: any) => this.markKey(m.to))
+            .join("line")
+            .attr("class", "target-link")
+            .attr("x1", m => trimmed(m).x1)
+            .attr("y1", m => trimmed(m).y1)
+            .attr("x2", m => trimmed(m).x2)
+            .attr("y2", m => trimmed(m).y2)
+            .attr("stroke", targetColour)
+            .attr("stroke-width", 1)
+            .attr("stroke-dasharray", "2 3");
+
+        const joinedTargets = targetsG
+            .selectAll<SVGCircleElement, Risk>("circle.target-point")
+            .data(targetMarks, riskKey)
+            .join("circle")
+            .attr("class", "target-point")
+            .on("contextmenu", (event, d) => this.showContextMenu(event, d.selectionId))
+            .attr("r", d => d.radius!)
+            .attr("cx", pointX)
+            .attr("cy", pointY)
+            .attr("fill", "none")
+            .attr("stroke", targetColour)
+            .attr("stroke-width", 2)
+            .attr("stroke-dasharray", "4 2")
+            .attr("pointer-events", "all");
+
+        this.tooltipServiceWrapper.addTooltip<Risk>(
+            joinedTargets,
+            (d) => this.getTooltipInfo(d),
+            (d) => d.selectionId,
+            true
+        );
 
-        const points = this.pointsG
-            .selectAll<SVGCircleElement, Risk>("circle.risk-point")
-            .data(jitteredRisks, (d: any) => `${d.category}-${d.consequenceIdx}-${d.likelihoodIdx}`);
+        // warning ring just outside the current point of risks rated above their target band
+        layer.select<SVGGElement>("g.target-warnings")
+            .selectAll<SVGCircleElement, Risk>("circle.target-warning")
+            .data(showTargets ? [...currentMark.values()].filter(d => d.offTarget) : [], riskKey)
+            .join("circle")
+            .attr("class", "target-warning")
+            .attr("r", d => d.radius! + Math.max(3, pointsCard.strokeWidth.value + 2))
+            .attr("cx", pointX)
+            .attr("cy", pointY)
+            .attr("fill", "none")
+            .attr("stroke", highContrast ? foreground : targetsCard.warningColor.value.value)
+            .attr("stroke-width", 3);
+
+        const points = layer.select<SVGGElement>("g.points")
+            .selectAll<SVGPathElement, Risk>("path.risk-point")
+            .data(jitteredRisks, riskKey);
+
+        // one symbol per status; a circle when Status is not bound
+        const pointPath = (d: Risk) => symbol_path(this.shapeOf(d), d.radius!);
+        const pointTransform = (d: Risk) => `translate(${pointX(d)}, ${pointY(d)})`;
 
         const joinedPoints = points.join(
-            enter => enter.append("circle")
+            enter => enter.append("path")
                 .attr("class", "risk-point")
-                .attr("r", d => d.radius! + 8)
-                .attr("cx", d => x(d.consequenceLabel!)! + x.bandwidth() / 2 + (d.jitterX ?? 0))
-                .attr("cy", d => y(d.likelihoodLabel!)! + y.bandwidth() / 2 + (d.jitterY ?? 0))
-                .attr("fill", pointColour)
-                .attr("opacity", 0.9)
-                .attr("stroke", "#24ae4b")
-                .attr("stroke-width", "2")
+                .attr("d", pointPath)
+                .attr("transform", pointTransform)
                 .style("cursor", "pointer")
                 .on("click", (event, d) => {
                     // NOTE: selectionId is not tied to a category due to table mapping.
                     // If you switch to 'categorical', wire a real identity here.
                     const multi = event.ctrlKey || event.metaKey;
-                    this.selectionManager.select(d.selectionId!, multi);
+                    this.selectionManager.select(d.selectionId!, multi).then(ids => this.syncSelection(ids));
                     event.stopPropagation();
-                }),
+                })
+                .on("contextmenu", (event, d) => this.showContextMenu(event, d.selectionId))
+                .on("keydown", (event, d) => this.onPointKeyDown(event, d))
+                .attr("role", "button")
+                .attr("tabindex", -1),
             update => update
-                .attr("r", d => d.radius! + 8)
-                .attr("cx", d => x(d.consequenceLabel!)! + x.bandwidth() / 2 + (d.jitterX ?? 0))
-                .attr("cy", d => y(d.likelihoodLabel!)! + y.bandwidth() / 2 + (d.jitterY ?? 0)),
+                .attr("d", pointPath)
+                .attr("transform", pointTransform),
             exit => exit.remove()
-        );
+        )
+            .attr("fill", riskColour)
+            .attr("opacity", d => isGhost(d) ? pointOpacity * 0.45 : pointOpacity)
+            .attr("stroke", highContrast ? foreground : pointsCard.strokeColor.value.value)
+            .attr("stroke-width", highContrast ? Math.max(2, pointsCard.strokeWidth.value) : pointsCard.strokeWidth.value)
+            .attr("stroke-dasharray", d => isGhost(d) ? "4 3" : null)
+            .attr("aria-label", d => this.getTooltipInfo(d).map(item => `${item.displayName}: ${item.value}`).join(", "));
 
         joinedPoints.select("title").remove();
 
@@ -540,34 +1527,729 @@ private tooltipCategoryCols: powerbi.DataViewCategoryColumn[] = [];
             true
         );
 
-        const nominalFontSize = Math.min(x.bandwidth(), y.bandwidth()) * 0.28;
-        const labelFontSize = (this.formattingSettings as any)?.labels?.fontSize?.value ?? Math.max(10, Math.min(14, Math.floor(nominalFontSize)));
-        const labelColor = (this.formattingSettings as any)?.labels?.color?.value ?? "#ffffff";
-        const showLabels = (this.formattingSettings as any)?.labels?.show?.value ?? true;
-
-        const labelsSel = this.labelsG
+        const labelMarks = showLabels ? jitteredRisks : [];
+        const placedLabels = new Map(place_labels(
+            labelMarks.map(d => ({
+                key: riskKey(d),
+                text: this.labelText(d),
+                cx: pointX(d),
+                cy: pointY(d),
+                r: d.radius!,
+                bounds: {
+                    x0: x(d.consequenceLabel!)!,
+                    y0: y(d.likelihoodLabel!)!,
+                    x1: x(d.consequenceLabel!)! + x.bandwidth(),
+                    y1: y(d.likelihoodLabel!)! + y.bandwidth()
+                }
+            })),
+            text => this.measureLabel(text, labelFontSize, labelsCard.font)
+        ).map(label => [label.key, label]));
+        const labelOf = (d: Risk) => placedLabels.get(riskKey(d))!;
+
+        const outsideLabelColor = highContrast ? foreground : labelsCard.outsideColor.value.value;
+
+        layer.select<SVGGElement>("g.labels")
+            .selectAll<SVGLineElement, Risk>("line.label-leader")
+            .data(labelsCard.leaderLines.value ? labelMarks.filter(d => labelOf(d).leader) : [], riskKey)
+            .join("line")
+            .attr("class", "label-leader")
+            .attr("x1", d => labelOf(d).leader[0])
+            .attr("y1", d => labelOf(d).leader[1])
+            .attr("x2", d => labelOf(d).leader[2])
+            .attr("y2", d => labelOf(d).leader[3])
+            .attr("stroke", outsideLabelColor)
+            .attr("stroke-width", 1)
+            .attr("opacity", d => isGhost(d) ? 0.6 : null);
+
+        const labelsSel = layer.select<SVGGElement>("g.labels")
             .selectAll<SVGTextElement, Risk>("text.risk-label")
-            .data(showLabels ? jitteredRisks : [], (d: any) => `${d.category}-${d.consequenceIdx}-${d.likelihoodIdx}`)
-            .attr("transform", "rotate(-90)");
+            .data(labelMarks, riskKey);
 
         labelsSel.join(
             enter => enter.append("text")
                 .attr("class", "risk-label")
-                .attr("text-anchor", "middle")
-                .attr("fill", labelColor)
-                .style("font-weight", "bold")
-                .style("font-size", `${labelFontSize}px`)
-                .attr("x", d => x(d.consequenceLabel!)! + x.bandwidth() / 2 + (d.jitterX ?? 0))
-                .attr("y", d => y(d.likelihoodLabel!)! + y.bandwidth() / 2 + (d.jitterY ?? 0) + (labelFontSize * 0.35))
-                .text(d => d.category),
-            update => update
-                .style("font-size", `${labelFontSize}px`)
-                .attr("x", d => x(d.consequenceLabel!)! + x.bandwidth() / 2 + (d.jitterX ?? 0))
-                .attr("y", d => y(d.likelihoodLabel!)! + y.bandwidth() / 2 + (d.jitterY ?? 0) + (labelFontSize * 0.35))
-                .text(d => d.category),
+                .attr("dominant-baseline", "central"),
+            update => update,
             exit => exit.remove()
+        )
+            .attr("x", d => labelOf(d).x)
+            .attr("y", d => labelOf(d).y)
+            .attr("text-anchor", d => labelOf(d).anchor)
+            .text(d => labelOf(d).text)
+            .attr("fill", d => labelOf(d).inside ? labelColor : outsideLabelColor)
+            .attr("opacity", d => isGhost(d) ? 0.6 : null)
+            .call(sel => this.applyFont(sel, labelsCard.font))
+            .style("font-size", `${labelFontSize}px`);
+
+        const badgesG = layer.select<SVGGElement>("g.count-badges");
+        const overflowBadges = badgesG
+            .selectAll<SVGGElement, CellOverflow>("g.overflow-badge")
+            .data(overflow, d => d.key)
+            .join(enter => {
+                const badge = enter.append("g")
+                    .attr("class", "overflow-badge")
+                    .style("cursor", "pointer")
+                    .on("click", (event, d) => {
+                        this.drillCell = this.drillCell === d.key ? null : d.key;
+                        this.renderDrillList(this.lastOverflow);
+                        event.stopPropagation();
+                    });
+                badge.append("rect");
+                badge.append("text")
+                    .attr("text-anchor", "middle")
+                    .attr("dominant-baseline", "central");
+                return badge;
+            })
+            .attr("transform", d => `translate(${pointX(d)}, ${pointY(d)})`);
+
+        overflowBadges.select("rect")
+            .attr("x", d => -d.radius)
+            .attr("y", d => -d.radius * 0.6)
+            .attr("width", d => d.radius * 2)
+            .attr("height", d => d.radius * 1.2)
+            .attr("rx", 4)
+            .attr("fill", highContrast ? background : "#ffffff")
+            .attr("stroke", highContrast ? foreground : pointsCard.fill.value.value)
+            .attr("stroke-width", 1.5);
+
+        overflowBadges.select("text")
+            .text(d => `+${d.hidden.length} more`)
+            .attr("fill", highContrast ? foreground : pointsCard.fill.value.value)
+            .attr("font-size", d => `${Math.max(8, Math.min(12, Math.round(d.radius * 0.55)))}px`);
+
+        const badgeRadius = Math.max(8, Math.min(x.bandwidth(), y.bandwidth()) * 0.25);
+
+        const badges = badgesG
+            .selectAll<SVGGElement, CellCount>("g.count-badge")
+            .data(aggregate ? cellCounts : [], (d: any) => `${d.cell.consequence}|${d.cell.likelihood}`)
+            .join(enter => {
+                const badge = enter.append("g")
+                    .attr("class", "count-badge")
+                    .style("cursor", "pointer")
+                    .on("click", (event, d) => {
+                        const multi = event.ctrlKey || event.metaKey;
+                        this.selectionManager.select(d.risks.map(r => r.selectionId!), multi).then(ids => this.syncSelection(ids));
+                        event.stopPropagation();
+                    });
+                badge.append("circle");
+                badge.append("text")
+                    .attr("text-anchor", "middle")
+                    .attr("dominant-baseline", "central");
+                return badge;
+            })
+            .attr("transform", d => `translate(${x(d.cell.consequence)! + x.bandwidth() / 2}, ${y(d.cell.likelihood)! + y.bandwidth() / 2})`);
+
+        badges.select("circle")
+            .attr("r", badgeRadius)
+            .attr("fill", pointColour)
+            .attr("opacity", pointOpacity)
+            .attr("stroke", highContrast ? foreground : pointsCard.strokeColor.value.value)
+            .attr("stroke-width", highContrast ? Math.max(2, pointsCard.strokeWidth.value) : pointsCard.strokeWidth.value);
+
+        badges.select<SVGTextElement>("text")
+            .text(d => String(d.risks.length))
+            .attr("fill", labelColor)
+            .call(sel => this.applyFont(sel, labelsCard.font))
+            .style("font-size", `${Math.max(10, Math.round(badgeRadius * 0.8))}px`);
+
+        this.tooltipServiceWrapper.addTooltip<CellCount>(
+            badges,
+            (d) => [
+                { displayName: "Cell", value: `${d.cell.consequence} / ${d.cell.likelihood}` },
+                { displayName: "Band", value: d.cell.risk },
+                { displayName: "Risks", value: String(d.risks.length) }
+            ],
+            () => null,
+            true
+        );
+
+        return overflow;
+    }
+
+    /**
+     * Flows the Legend and Status values into centred rows. When they need more than maxRows,
+     * the last row ends in a "+N more" marker in place of the values that did not fit.
+     */
+    private layoutLegend(show: boolean, fullWidth: number, maxRows: number): LegendLayout {
+        const card = this.formattingSettings.legendCard;
+        const font = this.formattingSettings.axesCard.titleFont;
+        const fontSize = card.fontSize.value;
+        const swatch = Math.max(3, fontSize / 2 - 1);
+        const available = fullWidth - 8;
+        const measure = (text: string) => this.measureLabel(text, fontSize, font)[0];
+
+        const values = show ? [...this.legendSeries, ...this.statusSeries] : [];
+        const rows: Array<Array<LegendItem & { width: number }>> = [];
+        let offset = 0;
+        for (const series of values) {
+            const text = truncate_label(series.value, 20);
+            const width = swatch * 2 + 4 + measure(text);
+            if (rows.length === 0 || (offset > 0 && offset + width > available)) {
+                if (rows.length === maxRows) break;
+                rows.push([]);
+                offset = 0;
+            }
+            rows[rows.length - 1].push({ series, text, x: offset, row: rows.length - 1, width });
+            offset += width + LEGEND_GAP;
+        }
+
+        let placed = rows.reduce((n, row) => n + row.length, 0);
+        let more: LegendLayout["more"] = null;
+        if (placed < values.length) {
+            // the marker takes the end of the last row, pushing off values that leave it no room
+            const last = rows[rows.length - 1];
+            const endOf = (item: { x: number; width: number }) => item.x + item.width + LEGEND_GAP;
+            while (last.length > 1 && endOf(last[last.length - 1]) + measure(`+${values.length - placed} more`) > available) {
+                last.pop();
+                placed--;
+            }
+            more = { text: `+${values.length - placed} more`, x: endOf(last[last.length - 1]), row: rows.length - 1 };
+        }
+
+        rows.forEach((row, r) => {
+            const end = row[row.length - 1];
+            const rowWidth = more?.row === r ? more.x + measure(more.text) : end.x + end.width;
+            const start = Math.max(4, (fullWidth - rowWidth) / 2);
+            row.forEach(item => item.x += start);
+            if (more?.row === r) more.x += start;
+        });
+
+        return { items: rows.flat(), rows: rows.length, more };
+    }
+
+    // a swatch and label per Legend and Status value, on the rows laid out by layoutLegend from top
+    private renderLegend(layout: LegendLayout, top: number, highContrastColour: string | null) {
+        const card = this.formattingSettings.legendCard;
+        const font = this.formattingSettings.axesCard.titleFont;
+        const fontSize = card.fontSize.value;
+        const swatch = Math.max(3, fontSize / 2 - 1);
+        const rowY = (row: number) => top + (row + 0.5) * LEGEND_HEIGHT;
+
+        const entries = this.legendG
+            .selectAll<SVGGElement, LegendItem>("g.legend-item")
+            .data(layout.items, d => this.seriesKey(d.series.role, d.series.value))
+            .join(enter => {
+                const item = enter.append("g")
+                    .attr("class", "legend-item")
+                    .attr("role", "button")
+                    .attr("tabindex", 0)
+                    .on("click", (event: MouseEvent, d) => {
+                        this.onLegendClick(d.series, event.ctrlKey || event.metaKey);
+                        event.stopPropagation();
+                    })
+                    .on("keydown", (event: KeyboardEvent, d) => {
+                        if (event.key !== "Enter" && event.key !== " ") return;
+                        this.onLegendClick(d.series, event.ctrlKey || event.metaKey);
+                        event.preventDefault();
+                        event.stopPropagation();
+                    })
+                    .on("contextmenu", (event: MouseEvent, d) => this.showContextMenu(event, d.series.selectionId));
+                item.append("path");
+                item.append("text").attr("dominant-baseline", "central");
+                return item;
+            })
+            .attr("transform", d => `translate(${d.x}, ${rowY(d.row)})`)
+            .attr("aria-label", d => {
+                const column = d.series.role === "status" ? this.statusColumn : this.legendColumn;
+                return `${column?.source.displayName ?? "Legend"}: ${d.series.value}`;
+            });
+
+        entries.select("path")
+            .attr("d", d => symbol_path(d.series.shape, swatch))
+            .attr("transform", `translate(${swatch}, 0)`)
+            .attr("fill", d => highContrastColour ?? (d.series.colour || card.color.value.value));
+
+        entries.select<SVGTextElement>("text")
+            .text(d => d.text)
+            .attr("x", swatch * 2 + 4)
+            .attr("fill", highContrastColour ?? card.color.value.value)
+            .style("font-family", font.fontFamily.value)
+            .style("font-size", `${fontSize}px`);
+
+        this.legendG
+            .selectAll<SVGTextElement, LegendLayout["more"]>("text.legend-more")
+            .data(layout.more ? [layout.more] : [])
+            .join(enter => enter.append("text")
+                .attr("class", "legend-more")
+                .attr("dominant-baseline", "central"))
+            .text(d => d.text)
+            .attr("x", d => d.x)
+            .attr("y", d => rowY(d.row))
+            .attr("fill", highContrastColour ?? card.color.value.value)
+            .style("font-family", font.fontFamily.value)
+            .style("font-size", `${fontSize}px`);
+    }
+
+    // scrollable list of the marks hidden behind the open "+N more" badge
+    private renderDrillList(overflow: CellOverflow[]) {
+        const open = overflow.find(o => o.key === this.drillCell);
+        if (!open) this.drillCell = null;
+
+        const list = this.drillList
+            .style("display", open ? null : "none");
+        if (!open) return;
+
+        const anchor = this.overflowAnchor(open);
+        const maxLeft = Math.max(0, this._container.clientWidth - 220);
+        list
+            .style("left", `${Math.min(anchor.left, maxLeft)}px`)
+            .style("top", `${anchor.top}px`);
+
+        list.select(".drill-list-title")
+            .text(`${open.consequenceLabel} / ${open.likelihoodLabel}: ${open.hidden.length} more`);
+
+        const suffix = (d: Risk) => d.rating === "target" ? " (target)" : d.rating === "inherent" && d.residual ? " (inherent)" : "";
+
+        const items = list.select("ul")
+            .selectAll<HTMLLIElement, Risk>("li")
+            .data(open.hidden, (d: any) => this.markKey(d))
+            .join(enter => enter.append("li")
+                .attr("class", "drill-list-item")
+                .on("click", (event, d) => {
+                    const multi = event.ctrlKey || event.metaKey;
+                    this.selectionManager.select(d.selectionId!, multi).then(ids => this.syncSelection(ids));
+                    event.stopPropagation();
+                })
+                .on("contextmenu", (event, d) => this.showContextMenu(event, d.selectionId)))
+            .text(d => `${d.category}${suffix(d)}`)
+            .classed("selected", d => this.selectedKeys.has(this.selectionKey(d.selectionId!)));
+
+        this.tooltipServiceWrapper.addTooltip<Risk>(
+            items,
+            (d) => this.getTooltipInfo(d),
+            (d) => d.selectionId,
+            true
         );
+    }
+
+    private cellRisks(cell: MatrixCell, panel: string): Risk[] {
+        const view = this.formattingSettings.ratingsCard.viewKey;
+        return this.cellCounts(view, this.panelRisks(panel)).find(c => c.cell === cell)?.risks ?? [];
+    }
+
+    // selects every risk in the panel's cell; Ctrl/Meta adds the cell to the current selection
+    private selectCell(cell: MatrixCell, multi: boolean, panel: string) {
+        if (this.formattingSettings.cellsCard.clickActionKey === "filter" && this.ratingFields.consequence && this.ratingFields.likelihood) {
+            this.filterCell(cell);
+            return;
+        }
+
+        const ids = this.cellRisks(cell, panel).map(r => r.selectionId!);
+        if (ids.length === 0) {
+            if (!multi) this.selectionManager.clear().then(() => this.syncSelection([]));
+            return;
+        }
+        this.selectionManager.select(ids, multi).then(selected => this.syncSelection(selected));
+    }
+
+    /**
+     * Filters the page to the cell's consequence and likelihood levels; clicking the filtered cell again removes it.
+     * Two column filters can only describe one cell, so a filter always replaces the previous one. A column of
+     * labels or codes is filtered on the source values that map to the level rather than on the level number.
+     */
+    private filterCell(cell: MatrixCell) {
+        const level: [number, number] = [
+            this.riskConsequenceLevels.indexOf(cell.consequence) + 1,
+            this.riskLikelihoodLevels.indexOf(cell.likelihood) + 1
+        ];
+
+        if (this.filteredCell?.[0] === level[0] && this.filteredCell?.[1] === level[1]) {
+            this.clearFilters();
+            return;
+        }
+
+        const filters = (["consequence", "likelihood"] as const).map((axis, i) => {
+            const sources = this.ratingSourceValues(axis, level[i]);
+            return sources ? values_filter(this.ratingFields[axis], sources) : level_filter(this.ratingFields[axis], level[i]);
+        });
+        this.replaceFilters(filters);
+        this.filteredCell = level;
+        this.filteredSeries = null;
+        this.applySelectionStyle();
+    }
+
+    /**
+     * Filters the page to the clicked Legend or Status value, or adds it to the filtered values of that field
+     * with Ctrl; clicking a filtered value again removes it. Replaces any other filter from this visual,
+     * as they all share one filter property.
+     */
+    private filterSeries(series: LegendSeries, multi: boolean) {
+        const column = series.role === "status" ? this.statusColumn : this.legendColumn;
+        const siblings = series.role === "status" ? this.statusSeries : this.legendSeries;
+        const target = filter_target(column?.source);
+        if (!target) return;
+
+        const key = this.seriesKey(series.role, series.value);
+        const values = new Set([...(multi ? this.filteredSeries ?? [] : [])].filter(k => k.startsWith(`${series.role}|`)));
+        if (this.filteredSeries?.has(key)) {
+            values.delete(key);
+        } else {
+            values.add(key);
+        }
+
+        const raw = siblings
+            .filter(s => values.has(this.seriesKey(s.role, s.value)) && s.raw != null)
+            .map(s => s.raw as string | number | boolean);
+        if (raw.length === 0) {
+            this.clearFilters();
+            return;
+        }
+
+        this.replaceFilters([values_filter(target, raw)]);
+        this.filteredSeries = values;
+        this.filteredCell = null;
+        this.applySelectionStyle();
+    }
+
+    // merge only adds to what is persisted, so the filter already applied (cell or legend) is removed first
+    private replaceFilters(filters: powerbi.IFilter[]) {
+        if (this.filteredCell || this.filteredSeries) {
+            this.host.applyJsonFilter(null, FILTER_OBJECT, FILTER_PROPERTY, powerbi.FilterAction.remove);
+        }
+        this.host.applyJsonFilter(filters, FILTER_OBJECT, FILTER_PROPERTY, powerbi.FilterAction.merge);
+    }
+
+    private clearFilters() {
+        if (!this.filteredCell && !this.filteredSeries) return;
+        this.filteredCell = null;
+        this.filteredSeries = null;
+        this.host.applyJsonFilter(null, FILTER_OBJECT, FILTER_PROPERTY, powerbi.FilterAction.remove);
+        this.applySelectionStyle();
+    }
+
+    // the filter we applied comes back in jsonFilters after a reload, bookmark or page change
+    private restoreFilters(filters: powerbi.IFilter[] | undefined) {
+        const restoredLevel = (axis: "consequence" | "likelihood"): number | null => {
+            const target = this.ratingFields[axis];
+            if (!target) return null;
+            const levels = axis === "consequence" ? this.riskConsequenceLevels : this.riskLikelihoodLevels;
+            const values = filtered_values(filters, target);
+            return values ? resolve_rating(values[0], this.ratingMappings[axis], levels) : filtered_level(filters, target);
+        };
+        const cIdx = restoredLevel("consequence");
+        const lIdx = restoredLevel("likelihood");
+        this.filteredCell = cIdx != null && lIdx != null ? [cIdx, lIdx] : null;
+
+        this.filteredSeries = null;
+        for (const [role, column] of [["legend", this.legendColumn], ["status", this.statusColumn]] as const) {
+            const target = filter_target(column?.source);
+            const values = target ? filtered_values(filters, target) : null;
+            if (values) this.filteredSeries = new Set(values.map(v => this.seriesKey(role, this.seriesName(v))));
+        }
+    }
+
+    private onLegendClick(series: LegendSeries, multi: boolean) {
+        if (this.formattingSettings.legendCard.clickActionKey === "filter") {
+            this.filterSeries(series, multi);
+            return;
+        }
+        this.selectionManager.select(series.selectionId, multi).then(ids => this.syncSelection(ids));
+    }
+
+    private cellKey(cell: MatrixCell, panel: string): string {
+        return `${panel}|${cell.consequence}|${cell.likelihood}`;
+    }
+
+    private ratingText([cIdx, lIdx]: [number, number]): string {
+        return `${this.consequenceLabelFromIndex(cIdx)} / ${this.likelihoodLabelFromIndex(lIdx)}`;
+    }
+
+    private panelG(panel: string): d3.Selection<SVGGElement, MatrixPanel, SVGGElement, unknown> {
+        return this.panelsG.selectAll<SVGGElement, MatrixPanel>("g.panel").filter(d => d.key === panel);
+    }
+
+    // one cell per panel is in the tab order at a time; arrow keys move it
+    private updateCellTabStops() {
+        if (!this.panelKeys.some(panel => this.data.some(c => this.cellKey(c, panel) === this.focusedCell))) this.focusedCell = null;
+
+        // start top-left: lowest consequence, highest likelihood
+        const first = this.data.find(c =>
+            c.consequence === this.riskConsequenceLevels[0]
+            && c.likelihood === this.riskLikelihoodLevels[this.riskLikelihoodLevels.length - 1]);
+
+        this.panelsG.selectAll<SVGGElement, MatrixPanel>("g.panel").each((panel, i, nodes) => {
+            const focused = this.data.some(c => this.cellKey(c, panel.key) === this.focusedCell);
+            const stop = focused ? this.focusedCell : first ? this.cellKey(first, panel.key) : null;
+            d3.select(nodes[i]).selectAll<SVGRectElement, MatrixCell>("rect.cell")
+                .attr("tabindex", d => this.cellKey(d, panel.key) === stop ? 0 : -1);
+        });
+    }
+
+    private focusCell(panel: string, consequence: string, likelihood: string) {
+        this.focusedCell = `${panel}|${consequence}|${likelihood}`;
+        this.updateCellTabStops();
+        this.panelG(panel).selectAll<SVGRectElement, MatrixCell>("rect.cell")
+            .filter(d => this.cellKey(d, panel) === this.focusedCell)
+            .node()?.focus();
+    }
+
+    private pointsInCell(cell: MatrixCell, panel: string): SVGPathElement[] {
+        return this.panelG(panel).selectAll<SVGPathElement, Risk>("path.risk-point")
+            .filter(d => d.consequenceLabel === cell.consequence && d.likelihoodLabel === cell.likelihood)
+            .nodes();
+    }
+
+    private onCellKeyDown(event: KeyboardEvent, cell: MatrixCell, panel: string) {
+        const cIdx = this.riskConsequenceLevels.indexOf(cell.consequence);
+        const lIdx = this.riskLikelihoodLevels.indexOf(cell.likelihood);
+        const move = (dc: number, dl: number) => {
+            const consequence = this.riskConsequenceLevels[cIdx + dc];
+            const likelihood = this.riskLikelihoodLevels[lIdx + dl];
+            if (consequence && likelihood) this.focusCell(panel, consequence, likelihood);
+        };
+
+        switch (event.key) {
+            case "ArrowLeft": move(-1, 0); break;
+            case "ArrowRight": move(1, 0); break;
+            case "ArrowUp": move(0, 1); break;
+            case "ArrowDown": move(0, -1); break;
+            case "Enter":
+            case " ":
+                this.selectCell(cell, event.ctrlKey || event.metaKey, panel);
+                break;
+            case "Tab": {
+                // into the cell's risks; with none, Tab leaves the visual as usual
+                const first = this.pointsInCell(cell, panel)[0];
+                if (event.shiftKey || !first) return;
+                first.focus();
+                break;
+            }
+            default:
+                return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+    }
+
+    // Tab/Shift+Tab step through the risks of the current cell; Escape returns to the cell
+    private onPointKeyDown(event: KeyboardEvent, d: Risk) {
+        const cell = this.data.find(c => c.consequence === d.consequenceLabel && c.likelihood === d.likelihoodLabel);
+        if (!cell) return;
+
+        const panel = d.panel ?? "";
+        const points = this.pointsInCell(cell, panel);
+        const idx = points.indexOf(event.currentTarget as SVGPathElement);
+
+        switch (event.key) {
+            case "Enter":
+            case " ":
+                this.selectionManager.select(d.selectionId!, event.ctrlKey || event.metaKey).then(ids => this.syncSelection(ids));
+                break;
+            case "Tab":
+                if (event.shiftKey) {
+                    if (idx > 0) points[idx - 1].focus();
+                    else this.focusCell(panel, cell.consequence, cell.likelihood);
+                } else {
+                    if (idx < 0 || idx === points.length - 1) return;
+                    points[idx + 1].focus();
+                }
+                break;
+            case "Escape":
+                this.focusCell(panel, cell.consequence, cell.likelihood);
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+    }
+
+    // authors only: why rows are missing from the matrix and which field well to fix
+    private renderDiagnostics(options: VisualUpdateOptions) {
+        const editing = options.viewMode === powerbi.ViewMode.Edit || options.viewMode === powerbi.ViewMode.InFocusEdit;
+        const issues = [...this.rowIssues.values()];
+        const show = editing && this.formattingSettings.diagnosticsCard.show.value && issues.length > 0;
+
+        this.diagnosticsPanel.style("display", show ? null : "none");
+        if (!show) return;
+
+        const levels = (role: string) => role === "riskConsequenceRating" ? this.riskConsequenceLevels.length : this.riskLikelihoodLevels.length;
+        const hint = (issue: RowIssue) => {
+            switch (issue.reason) {
+                case "missing role": return `Add a field to ${ROLE_NAMES[issue.role]}.`;
+                case "non-numeric": return `Use whole numbers or axis labels in ${ROLE_NAMES[issue.role]}, or map the values under Rating mapping.`;
+                case "out of range": return `${ROLE_NAMES[issue.role]} must be 1 to ${levels(issue.role)}; check the field or the matrix size.`;
+            }
+        };
+
+        this.diagnosticsPanel.selectAll(".diagnostics-header")
+            .data([null])
+            .join("div")
+            .attr("class", "diagnostics-header")
+            .text(this.droppedRows > 0
+                ? `${this.droppedRows} of ${this.rowCount} rows not plotted`
+                : "Required fields missing");
+
+        const items = this.diagnosticsPanel.selectAll("ul")
+            .data([null])
+            .join("ul")
+            .selectAll<HTMLLIElement, RowIssue>("li")
+            .data(issues)
+            .join(enter => {
+                const li = enter.append("li");
+                li.append("div").attr("class", "diagnostics-reason");
+                li.append("div").attr("class", "diagnostics-samples");
+                li.append("div").attr("class", "diagnostics-hint");
+                return li;
+            });
+
+        items.select(".diagnostics-reason")
+            .text(d => d.reason === "missing role"
+                ? `${ROLE_NAMES[d.role]}: no field bound`
+                : `${ROLE_NAMES[d.role]}: ${d.rows} ${d.rows === 1 ? "row" : "rows"} ${d.reason}`);
+        items.select(".diagnostics-samples")
+            .style("display", d => d.samples.length ? null : "none")
+            .text(d => `e.g. ${d.samples.map(v => `"${v}"`).join(", ")}`);
+        items.select(".diagnostics-hint")
+            .text(hint);
+    }
+
+    // the risk's label, truncated before the score is added so the score always shows
+    private labelText(d: Risk): string {
+        const name = truncate_label(d.category, this.formattingSettings.labelsCard.maxLength.value);
+        return this.formattingSettings.scoringCard.showInLabels.value
+            ? `${name} (${format_score(this.scoreAt([d.consequenceIdx, d.likelihoodIdx]))})`
+            : name;
+    }
+
+    private renderDataTable() {
+        const hasResidual = this.risks.some(r => r.residual);
+        const hasTarget = this.risks.some(r => r.target);
+
+        const columns: Array<{ title: string; value: (r: Risk) => string }> = [
+            { title: "Risk", value: r => r.category },
+            { title: hasResidual ? "Inherent rating" : "Rating", value: r => this.ratingText(r.inherent ?? [r.consequenceIdx, r.likelihoodIdx]) },
+            { title: hasResidual ? "Inherent score" : "Score", value: r => format_score(this.scoreAt(r.inherent ?? [r.consequenceIdx, r.likelihoodIdx])) }
+        ];
+        if (this.legendColumn) columns.push({ title: this.legendColumn.source.displayName, value: r => r.series ?? "" });
+        if (this.statusColumn) columns.push({ title: this.statusColumn.source.displayName, value: r => r.status ?? "" });
+        if (this.panelColumn) columns.push({ title: this.panelColumn.source.displayName, value: r => r.panel ?? "" });
+        if (hasResidual) {
+            columns.push(
+                { title: "Residual rating", value: r => r.residual ? this.ratingText(r.residual) : "" },
+                { title: "Residual score", value: r => r.residual ? format_score(this.scoreAt(r.residual)) : "" }
+            );
+        }
+        if (hasTarget) columns.push({ title: "Target rating", value: r => r.target ? this.ratingText(r.target) : "" });
+        columns.push({
+            title: "Band",
+            value: r => {
+                const band = this.bandAt(r.residual ?? [r.consequenceIdx, r.likelihoodIdx]);
+                return this.bandLabels[band] ?? String(band + 1);
+            }
+        });
+
+        this.dataTable.select("thead tr")
+            .selectAll("th")
+            .data(columns)
+            .join("th")
+            .attr("scope", "col")
+            .text(c => c.title);
+
+        this.dataTable.select("tbody")
+            .selectAll<HTMLTableRowElement, Risk>("tr")
+            .data(this.risks)
+            .join("tr")
+            .selectAll("td")
+            .data(r => columns.map(c => c.value(r)))
+            .join("td")
+            .text(v => v);
+    }
+
+    // standard Include/Exclude, drill-through and copy menu; without an identity it covers the whole visual
+    private showContextMenu(event: MouseEvent, selectionId?: powerbi.extensibility.ISelectionId) {
+        this.selectionManager.showContextMenu(selectionId ?? {}, { x: event.clientX, y: event.clientY });
+        event.preventDefault();
+        event.stopPropagation();
+    }
+
+    private selectionKey(id: powerbi.extensibility.ISelectionId): string {
+        return (id as powerbi.visuals.ISelectionId).getKey();
+    }
+
+    private syncSelection(ids: powerbi.extensibility.ISelectionId[]) {
+        this.selectedKeys = new Set(ids.map(id => this.selectionKey(id)));
+        this.applySelectionStyle();
+    }
+
+    // selected marks are emphasised and the rest dimmed, as are risks left out of a cross-highlight;
+    // with neither, everything draws normally
+    private applySelectionStyle() {
+        const hasSelection = this.selectedKeys.size > 0;
+        // a risk is also selected through its Legend or Status value
+        const selectedSeries = new Set([...this.legendSeries, ...this.statusSeries]
+            .filter(s => this.selectedKeys.has(this.selectionKey(s.selectionId)))
+            .map(s => this.seriesKey(s.role, s.value)));
+        // and in every panel through its label
+        const selectedLabels = new Set(this.risks
+            .filter(r => this.selectedKeys.has(this.selectionKey(r.selectionId)))
+            .map(r => r.labelKey));
+        const isSelected = (d: Risk) => !!d?.selectionId
+            && (this.selectedKeys.has(this.selectionKey(d.selectionId))
+                || selectedLabels.has(d.labelKey)
+                || selectedSeries.has(this.seriesKey("legend", d.series))
+                || selectedSeries.has(this.seriesKey("status", d.status)));
+        const isShown = (d: Risk) => hasSelection ? isSelected(d) : !this.hasHighlights || !!d?.highlighted;
+        const mark = (d: Risk) => hasSelection && isSelected(d);
+        const dim = (d: Risk) => !isShown(d);
+
+        this.rootG.selectAll<SVGElement, Risk>(".risk-point, .risk-label, .label-leader, .target-point, .target-warning")
+            .classed("selected", mark)
+            .classed("dimmed", dim);
+
+        this.rootG.selectAll<SVGLineElement, { to: Risk }>(".movement-arrow, .target-link")
+            .classed("dimmed", d => dim(d.to));
+
+        this.rootG.selectAll<SVGGElement, CellCount>("g.count-badge")
+            .classed("selected", d => hasSelection && d.risks.some(isSelected))
+            .classed("dimmed", d => !d.risks.some(isShown));
+
+        // a cell is outlined once all of its risks in that panel are selected
+        const view = this.formattingSettings.ratingsCard.viewKey;
+        const filtered = this.filteredCell;
+        this.panelsG.selectAll<SVGGElement, MatrixPanel>("g.panel").each((panel, i, nodes) => {
+            const cellRisks = new Map(this.cellCounts(view, this.panelRisks(panel.key)).map(c => [c.cell, c.risks]));
+            d3.select(nodes[i]).selectAll<SVGRectElement, MatrixCell>("rect.cell")
+                .classed("selected", d => hasSelection && !!cellRisks.get(d)?.every(isSelected))
+                .classed("filtered", d => !!filtered
+                    && this.riskConsequenceLevels.indexOf(d.consequence) + 1 === filtered[0]
+                    && this.riskLikelihoodLevels.indexOf(d.likelihood) + 1 === filtered[1]);
+        });
+
+        this.drillList.selectAll<HTMLLIElement, Risk>("li")
+            .classed("selected", mark);
+
+        const filteredSeries = this.filteredSeries;
+        const keyOf = (d: { series: LegendSeries }) => this.seriesKey(d.series.role, d.series.value);
+        const inSeries = (r: Risk, s: LegendSeries) => (s.role === "status" ? r.status : r.series) === s.value;
+        this.legendG.selectAll<SVGGElement, { series: LegendSeries }>("g.legend-item")
+            .classed("selected", d => hasSelection && selectedSeries.has(keyOf(d)))
+            .classed("dimmed", d => hasSelection
+                ? !this.risks.some(r => inSeries(r, d.series) && isSelected(r))
+                : !!filteredSeries && !filteredSeries.has(keyOf(d)))
+            .attr("aria-pressed", d => hasSelection && selectedSeries.has(keyOf(d)) || !!filteredSeries?.has(keyOf(d)));
+    }
+
+    // width and height of a label as drawn, measured off-screen
+    private measureLabel(text: string, fontSize: number, font: formattingSettings.FontControl): MarkBox {
+        this.measureContext ??= document.createElement("canvas").getContext("2d");
+        if (!this.measureContext) return [text.length * fontSize * 0.6, fontSize];
+
+        this.measureContext.font = [
+            font.italic?.value ? "italic" : "normal",
+            font.bold?.value ? "bold" : "normal",
+            `${fontSize}px`,
+            font.fontFamily.value
+        ].join(" ");
+        return [this.measureContext.measureText(text).width, fontSize];
+    }
 
+    private applyFont(sel: d3.Selection<SVGTextElement, any, any, any>, font: formattingSettings.FontControl) {
+        sel
+            .style("font-family", font.fontFamily.value)
+            .style("font-size", `${font.fontSize.value}px`)
+            .style("font-weight", font.bold?.value ? "bold" : "normal")
+            .style("font-style", font.italic?.value ? "italic" : "normal");
     }
 
     public getFormattingModel(): powerbi.visuals.FormattingModel {